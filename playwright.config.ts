@@ -6,6 +6,12 @@ import { defineConfig, devices } from '@playwright/test';
  */
 require('dotenv').config();
 
+/* Local mock API started by global setup when MOCK_API=true */
+const mockApiURL =
+  process.env.MOCK_API === 'true'
+    ? `http://localhost:${process.env.MOCK_API_PORT || 3100}`
+    : undefined;
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
@@ -31,7 +37,7 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: process.env.BASE_URL || 'http://localhost:3000',
+    baseURL: process.env.BASE_URL || mockApiURL || 'http://localhost:3000',
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -94,13 +100,15 @@ export default defineConfig({
       name: 'api',
       testDir: './tests/api',
       use: {
-        baseURL: process.env.API_BASE_URL || 'http://localhost:3000/api',
+        baseURL:
+          process.env.API_BASE_URL ||
+          `${mockApiURL || 'http://localhost:3000'}/api`,
       },
     },
   ],
 
   /* Run your local dev server before starting the tests */
-  webServer: process.env.CI
+  webServer: process.env.CI || mockApiURL
     ? undefined
     : {
       command: 'npm run dev',
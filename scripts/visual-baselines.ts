@@ -0,0 +1,125 @@
+// Manage visual baselines after a test run:
+//
+//   npm run visual:baselines -- list
+//   npm run visual:baselines -- show [pattern...]
+//   npm run visual:baselines -- review
+//   npm run visual:baselines -- approve <pattern...> | --all
+//   npm run visual:baselines -- reject <pattern...> | --all
+//   npm run visual:baselines -- prune [--yes] [--force]
+//
+// Patterns match `<project>/<name>` and may use `*`, e.g. `chromium/home*`.
+
+import readline from 'readline/promises';
+import { VisualBaselines } from '../src/utils/visual-baselines';
+import { ComparisonRecord } from '../src/utils/visual-testing';
+
+const baselines = new VisualBaselines();
+
+function describe(record: ComparisonRecord): string {
+  const stats = record.diff
+    ? `${record.diff.diffPixels} px, SSIM ${record.diff.ssim.toFixed(4)}`
+    : 'no diff';
+  return `${VisualBaselines.key(record)}  (${stats})  ${record.testTitle}`;
+}
+
+function select(args: string[]): ComparisonRecord[] {
+  if (args.includes('--all')) return baselines.getPending();
+  if (args.length === 0) {
+    throw new Error('Name the comparisons to change, or pass --all');
+  }
+  return baselines.find(args);
+}
+
+async function review(): Promise<void> {
+  const pending = baselines.getPending();
+  if (pending.length === 0) {
+    console.log('✅ Nothing to review');
+    return;
+  }
+  console.log(`🖼️  Side by side: ${baselines.writeSideBySide(pending)}\n`);
+
+  const prompt = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    for (const [index, record] of pending.entries()) {
+      console.log(`[${index + 1}/${pending.length}] ${describe(record)}`);
+      const answer = (
+        await prompt.question('  (a)pprove, (r)eject, (s)kip, (q)uit? ')
+      ).trim();
+      if (answer === 'q') break;
+      if (answer === 'a') {
+        baselines.approve(record);
+        console.log('  ✅ approved');
+      } else if (answer === 'r') {
+        baselines.reject(record);
+        console.log('  ❌ rejected');
+      }
+    }
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const [command = 'list', ...args] = process.argv.slice(2);
+
+  switch (command) {
+  case 'list': {
+    const pending = baselines.getPending();
+    console.log(`${pending.length} failed visual comparison(s)`);
+    pending.forEach((record) => console.log(`  ${describe(record)}`));
+    break;
+  }
+  case 'show': {
+    const records =
+      args.length > 0 ? baselines.find(args) : baselines.getPending();
+    console.log(`🖼️  ${baselines.writeSideBySide(records)}`);
+    break;
+  }
+  case 'review':
+    await review();
+    break;
+  case 'approve':
+  case 'reject': {
+    const records = select(args);
+    for (const record of records) {
+      if (command === 'approve') {
+        baselines.approve(record);
+      } else {
+        baselines.reject(record);
+      }
+      console.log(`${command === 'approve' ? '✅' : '❌'} ${describe(record)}`);
+    }
+    console.log(`${records.length} comparison(s) ${command}d`);
+    break;
+  }
+  case 'prune': {
+    // Failed, skipped or filtered runs make live baselines look orphaned
+    const blockers = baselines.getPruneBlockers();
+    if (blockers.length > 0 && !args.includes('--yes')) {
+      console.warn('⚠️  The last run cannot be trusted for pruning:');
+      blockers.forEach((blocker) => console.warn(`  - ${blocker}`));
+    }
+
+    const orphans = args.includes('--yes')
+      ? baselines.prune(args.includes('--force'))
+      : baselines.getOrphans();
+    orphans.forEach((file) => console.log(`  ${file}`));
+    console.log(
+      args.includes('--yes')
+        ? `🗑️  Deleted ${orphans.length} orphaned baseline(s)`
+        : `${orphans.length} orphaned baseline(s); rerun with --yes to delete`
+    );
+    break;
+  }
+  default:
+    throw new Error(`Unknown command "${command}"`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
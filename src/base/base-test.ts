@@ -4,37 +4,329 @@ import {
   BrowserContext,
   APIRequestContext,
 } from '@playwright/test';
+import { UserRole, ensureStorageState } from '../config/auth-state';
 import { TestHelpers } from '../utils/test-helpers';
 import { VisualTesting } from '../utils/visual-testing';
+import {
+  StabilizationSetting,
+  resolveStabilization,
+} from '../utils/stabilization';
 import { ApiTesting } from '../utils/api-testing';
+import { GraphQLTesting } from '../utils/graphql-testing';
 import { MobileTesting } from '../utils/mobile-testing';
+import { RealtimeTesting } from '../utils/realtime-testing';
+import { RequestLog } from '../utils/request-log';
+import {
+  HarMatchOptions,
+  HarNetwork,
+  NetworkMode,
+} from '../utils/har-network';
+import { recordApiCoverage } from '../utils/openapi-contract';
+import { AuthProvider, PasswordLoginAuth } from '../utils/auth-providers';
+import { RetryPolicy } from '../utils/retry-policy';
+import { TestDataRegistry } from '../config/data-registry';
+import { DataGenerator } from '../utils/data-generator';
+import { TestDataManager } from '../config/test-data';
+
+export interface RoleSession {
+  page: Page;
+  context: BrowserContext;
+  request: APIRequestContext;
+}
+
+export type AsRole = (role: UserRole) => Promise<RoleSession>;
 
 // Extend the base test with custom fixtures
-export const test = base.extend<{
-  testHelpers: TestHelpers;
-  visualTesting: VisualTesting;
-  apiTesting: ApiTesting;
-  mobileTesting: MobileTesting;
-}>({
+export const test = base.extend<
+  {
+    apiAuth: AuthProvider | undefined;
+    apiRetry: Partial<RetryPolicy> | undefined;
+    asRole: AsRole;
+    testHelpers: TestHelpers;
+    stabilization: StabilizationSetting;
+    visualTesting: VisualTesting;
+    apiTesting: ApiTesting;
+    graphqlEndpoint: string;
+    graphqlSchema: string | undefined;
+    graphqlTesting: GraphQLTesting;
+    mobileTesting: MobileTesting;
+    realtimeTesting: RealtimeTesting;
+    requestLog: RequestLog;
+    networkMode: NetworkMode;
+    harOptions: HarMatchOptions;
+    harNetwork: HarNetwork;
+    dataRegistry: TestDataRegistry;
+    dataSeed: number | undefined;
+    dataGenerator: DataGenerator;
+    scopedData: TestDataManager;
+  },
+  {
+    workerDataRegistry: TestDataRegistry;
+  }
+>({
+  // Auth strategy for apiTesting, set with test.use({ apiAuth: ... })
+  apiAuth: [undefined, { option: true }],
+
+  // Retry policy for apiTesting, set with test.use({ apiRetry: ... }) or
+  // API_RETRY_ATTEMPTS for the whole run
+  apiRetry: [
+    process.env.API_RETRY_ATTEMPTS
+      ? { maxAttempts: Number(process.env.API_RETRY_ATTEMPTS) }
+      : undefined,
+    { option: true },
+  ],
+
+  // GraphQL endpoint and local SDL file for graphqlTesting, set with
+  // test.use(...) or GRAPHQL_ENDPOINT / GRAPHQL_SCHEMA for the whole run
+  graphqlEndpoint: [
+    process.env.GRAPHQL_ENDPOINT || '/graphql',
+    { option: true },
+  ],
+  graphqlSchema: [process.env.GRAPHQL_SCHEMA, { option: true }],
+
+  // Stabilization profile for visualTesting, set per project or with
+  // test.use(...), or VISUAL_STABILIZATION for the whole run
+  stabilization: [
+    process.env.VISUAL_STABILIZATION || 'default',
+    { option: true },
+  ],
+
+  // record / replay / live network traffic, set with test.use(...) or
+  // NETWORK_MODE for the whole run
+  networkMode: [
+    (process.env.NETWORK_MODE as NetworkMode) || 'live',
+    { option: true },
+  ],
+  harOptions: [{}, { option: true }],
+
+  // Records or replays apiTesting traffic; browser traffic through the
+  // context override below
+  harNetwork: async ({ networkMode, harOptions, baseURL }, use, testInfo) => {
+    const harNetwork = new HarNetwork(
+      networkMode,
+      HarNetwork.pathFor(testInfo),
+      harOptions,
+      baseURL
+    );
+    await use(harNetwork);
+    await harNetwork.finish();
+  },
+
+  // Records or replays browser traffic unless the network is live;
+  // page-level route mocks still take precedence
+  context: async ({ context, networkMode, harNetwork }, use) => {
+    if (networkMode !== 'live') {
+      await harNetwork.attachContext(context);
+    }
+    await use(context);
+  },
+
   testHelpers: async ({ page }, use) => {
     const testHelpers = new TestHelpers(page);
     await use(testHelpers);
   },
 
-  visualTesting: async ({ page }, use) => {
-    const visualTesting = new VisualTesting(page);
+  // Freezes Date and seeds Math.random for the whole test, not only while
+  // comparing, unless the profile turns freezeTime / randomSeed off
+  visualTesting: async ({ page, stabilization }, use) => {
+    const visualTesting = new VisualTesting(
+      page,
+      resolveStabilization(stabilization)
+    );
+    await visualTesting.prepare();
     await use(visualTesting);
   },
 
-  apiTesting: async ({ request }, use) => {
-    const apiTesting = new ApiTesting(request);
+  apiTesting: async (
+    { request, apiAuth, apiRetry, harNetwork },
+    use,
+    testInfo
+  ) => {
+    const apiTesting = new ApiTesting(request, apiAuth, apiRetry);
+    if (harNetwork.mode !== 'live') {
+      apiTesting.useHar(harNetwork);
+    }
     await use(apiTesting);
+
+    // Picked up by the advanced reporter
+    const retries = apiTesting.getRetryLog();
+    if (retries.length > 0) {
+      await testInfo.attach('api-retries', {
+        body: JSON.stringify(retries, null, 2),
+        contentType: 'application/json',
+      });
+    }
+
+    const loadResults = apiTesting.getLoadTestResults();
+    if (loadResults.length > 0) {
+      await testInfo.attach('load-test-results', {
+        body: JSON.stringify(loadResults, null, 2),
+        contentType: 'application/json',
+      });
+    }
+
+    // Feed the OpenAPI coverage report when a spec is configured
+    if (process.env.OPENAPI_SPEC) {
+      recordApiCoverage(apiTesting.getCallLog());
+    }
+  },
+
+  // Shares auth, retries and the call log with apiTesting
+  graphqlTesting: async (
+    { apiTesting, graphqlEndpoint, graphqlSchema },
+    use
+  ) => {
+    const graphqlTesting = new GraphQLTesting(apiTesting, {
+      endpoint: graphqlEndpoint,
+      schemaPath: graphqlSchema,
+    });
+    await use(graphqlTesting);
+  },
+
+  // Run seed for dataGenerator; TEST_SEED for the whole run, or pin one
+  // file's data with test.use({ dataSeed })
+  dataSeed: [undefined, { option: true }],
+
+  // Same values on every run with the same seed, unique per test
+  dataGenerator: async ({ dataSeed }, use, testInfo) => {
+    const dataGenerator = DataGenerator.forTest(testInfo, dataSeed);
+    testInfo.annotations.push({
+      type: 'seed',
+      description:
+        dataSeed !== undefined
+          ? `dataSeed=${dataSeed}`
+          : `TEST_SEED=${process.env.TEST_SEED}`,
+    });
+    await use(dataGenerator);
   },
 
+  // Test data of this test alone, namespaced so parallel tests never collide
+  scopedData: async ({ dataGenerator }, use) => {
+    const scopedData = TestDataManager.forNamespace(
+      dataGenerator.unique('t'),
+      dataGenerator
+    );
+    await use(scopedData);
+    scopedData.cleanup();
+  },
+
+  // Entities created through the API, deleted again when the test ends
+  dataRegistry: async ({ apiTesting, dataGenerator }, use) => {
+    const dataRegistry = new TestDataRegistry(apiTesting, dataGenerator);
+    await use(dataRegistry);
+    await dataRegistry.cleanup();
+  },
+
+  // Shared by all tests of a worker, deleted when the worker shuts down
+  workerDataRegistry: [
+    async ({ playwright }, use, workerInfo) => {
+      const request = await playwright.request.newContext({
+        baseURL: workerInfo.project.use.baseURL,
+      });
+      const workerDataRegistry = new TestDataRegistry(new ApiTesting(request));
+      await use(workerDataRegistry);
+      try {
+        await workerDataRegistry.cleanup();
+      } finally {
+        await request.dispose();
+      }
+    },
+    { scope: 'worker' },
+  ],
+
   mobileTesting: async ({ page, context }, use) => {
     const mobileTesting = new MobileTesting(page, context);
     await use(mobileTesting);
   },
+
+  // Page taps need realtimeTesting.attachPage(page) first
+  realtimeTesting: async ({ baseURL }, use, testInfo) => {
+    const realtimeTesting = new RealtimeTesting(baseURL);
+    await use(realtimeTesting);
+    realtimeTesting.closeAll();
+
+    const channels = realtimeTesting
+      .getChannels()
+      .filter((channel) => channel.messages.length > 0);
+    if (channels.length > 0) {
+      await testInfo.attach('realtime-frames', {
+        body: JSON.stringify(
+          channels.map(({ kind, url, messages }) => ({ kind, url, messages })),
+          null,
+          2
+        ),
+        contentType: 'application/json',
+      });
+    }
+  },
+
+  requestLog: async ({ context }, use, testInfo) => {
+    const requestLog = new RequestLog(context);
+    await use(requestLog);
+
+    // Only worth the noise when something went wrong
+    if (testInfo.status !== testInfo.expectedStatus) {
+      await testInfo.attach('request-log', {
+        body: JSON.stringify(requestLog.getRequests(), null, 2),
+        contentType: 'application/json',
+      });
+    }
+  },
+
+  // Page and request context already logged in as a TestDataManager role
+  asRole: async (
+    {
+      browser,
+      playwright,
+      baseURL,
+      viewport,
+      userAgent,
+      deviceScaleFactor,
+      isMobile,
+      hasTouch,
+      locale,
+    },
+    use
+  ) => {
+    const contexts: BrowserContext[] = [];
+    const requests: APIRequestContext[] = [];
+    const url = baseURL || 'http://localhost:3000';
+
+    await use(async (role) => {
+      let storageState: string;
+      try {
+        storageState = await ensureStorageState(browser, role, url);
+      } catch (error) {
+        throw new Error(
+          `Could not log in as ${role} at ${url}/login: ` +
+            `${(error as Error).message}`
+        );
+      }
+
+      const context = await browser.newContext({
+        baseURL: url,
+        storageState,
+        viewport,
+        userAgent,
+        deviceScaleFactor,
+        isMobile,
+        hasTouch,
+        locale,
+      });
+      contexts.push(context);
+
+      const request = await playwright.request.newContext({
+        baseURL: url,
+        storageState,
+      });
+      requests.push(request);
+
+      return { page: await context.newPage(), context, request };
+    });
+
+    await Promise.all(contexts.map((context) => context.close()));
+    await Promise.all(requests.map((request) => request.dispose()));
+  },
 });
 
 export { expect } from '@playwright/test';
@@ -69,15 +361,53 @@ export class BaseTest {
   }
 
   /**
-   * Common authentication setup
+   * Authenticate the browser context through the API, either with
+   * username/password against `/auth/login` or any other auth provider.
+   * Auth headers are only added to requests for the origin of `baseURL`, and
+   * are read from the provider per request so expired tokens are refreshed.
    */
-  async authenticate(credentials: {
-    username: string;
-    password: string;
-  }): Promise<void> {
-    // This would typically involve API calls or form filling
-    // Implementation depends on your authentication system
-    console.log(`Authenticating user: ${credentials.username}`);
+  async authenticate(
+    credentials: { username: string; password: string } | AuthProvider,
+    baseURL = process.env.BASE_URL || 'http://localhost:3000'
+  ): Promise<void> {
+    const request = this.request;
+    if (!request) {
+      throw new Error('authenticate() needs an APIRequestContext');
+    }
+
+    const provider =
+      'getCredentials' in credentials
+        ? credentials
+        : new PasswordLoginAuth(credentials);
+    const auth = await provider.getCredentials(request);
+
+    const cookies = auth.cookies || [];
+    const usesCookies = cookies.length > 0;
+    if (usesCookies) {
+      await this.context.addCookies(
+        cookies.map((cookie) => ({ ...cookie, url: baseURL }))
+      );
+    }
+
+    // Cookies were added above; send everything else as request headers
+    const headersOf = (current: typeof auth) =>
+      Object.fromEntries(
+        Object.entries(current.headers || {}).filter(
+          ([name]) => !usesCookies || name.toLowerCase() !== 'cookie'
+        )
+      );
+    if (Object.keys(headersOf(auth)).length === 0) return;
+
+    const origin = new URL(baseURL).origin;
+    await this.context.route(
+      (url) => url.origin === origin,
+      async (route) => {
+        const current = await provider.getCredentials(request);
+        await route.fallback({
+          headers: { ...route.request().headers(), ...headersOf(current) },
+        });
+      }
+    );
   }
 
   /**
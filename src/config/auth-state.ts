@@ -0,0 +1,106 @@
+// Saved login sessions (Playwright storage state) per test user role
+
+import fs from 'fs';
+import path from 'path';
+import { Browser } from '@playwright/test';
+import { TestUser, testData } from './test-data';
+
+export type UserRole = NonNullable<TestUser['role']>;
+
+export const USER_ROLES: UserRole[] = ['user', 'admin', 'moderator'];
+
+const AUTH_DIR = path.join(process.cwd(), 'playwright', '.auth');
+
+// Sessions older than this are logged in again even if cookies look valid
+const MAX_AGE_MS =
+  Number(process.env.AUTH_STATE_MAX_AGE_MINUTES || 60) * 60 * 1000;
+
+// Treat cookies expiring within this window as already expired
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const LOGIN_SELECTORS = {
+  email: '#email',
+  password: '#password',
+  submit: 'button[type="submit"]',
+  loggedIn: '[data-testid="user-menu"]',
+};
+
+export function storageStatePath(role: UserRole): string {
+  return path.join(AUTH_DIR, `${role}.json`);
+}
+
+/**
+ * Whether a saved session exists, is younger than the max age and none of
+ * its cookies has expired
+ */
+export function isStorageStateValid(role: UserRole): boolean {
+  const statePath = storageStatePath(role);
+  if (!fs.existsSync(statePath)) return false;
+
+  if (Date.now() - fs.statSync(statePath).mtimeMs > MAX_AGE_MS) return false;
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    const now = Date.now();
+
+    return (state.cookies || []).every(
+      (cookie: { expires: number }) =>
+        cookie.expires <= 0 || cookie.expires * 1000 - EXPIRY_SKEW_MS > now
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Log in through the login form as the given role and save the session
+ */
+export async function createStorageState(
+  browser: Browser,
+  role: UserRole,
+  baseURL: string
+): Promise<string> {
+  const user = testData.getUser(role);
+  const context = await browser.newContext({ baseURL });
+
+  try {
+    const page = await context.newPage();
+    await page.goto('/login');
+    await page.locator(LOGIN_SELECTORS.email).fill(user.email);
+    await page.locator(LOGIN_SELECTORS.password).fill(user.password);
+    await page.locator(LOGIN_SELECTORS.submit).click();
+    await page.locator(LOGIN_SELECTORS.loggedIn).waitFor({ timeout: 30000 });
+
+    // Write then rename so parallel workers never read a partial file
+    const statePath = storageStatePath(role);
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    await context.storageState({ path: tempPath });
+    fs.renameSync(tempPath, statePath);
+
+    return statePath;
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Reuse the saved session for a role or log in again when it has expired
+ */
+export async function ensureStorageState(
+  browser: Browser,
+  role: UserRole,
+  baseURL: string
+): Promise<string> {
+  if (isStorageStateValid(role)) {
+    return storageStatePath(role);
+  }
+  return createStorageState(browser, role, baseURL);
+}
+
+/**
+ * Remove the saved session so the next use logs in again
+ */
+export function invalidateStorageState(role: UserRole): void {
+  fs.rmSync(storageStatePath(role), { force: true });
+}
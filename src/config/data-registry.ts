@@ -0,0 +1,247 @@
+// Test data provisioned through the API, tracked and cleaned up afterwards
+
+import fs from 'fs';
+import path from 'path';
+import { FullConfig, request } from '@playwright/test';
+import { ApiTesting } from '../utils/api-testing';
+import { PasswordLoginAuth } from '../utils/auth-providers';
+import { DataGenerator, random } from '../utils/data-generator';
+import {
+  EntityRecord,
+  FactoryName,
+  FactoryTypes,
+  factories,
+} from './factories';
+import { testData } from './test-data';
+
+/** How one entity type is created and deleted through the API */
+export interface EntityAdapter<T = EntityRecord> {
+  create(api: ApiTesting, entity: T): Promise<T>;
+  delete(api: ApiTesting, entity: T): Promise<void>;
+}
+
+interface LedgerEntry {
+  action: 'create' | 'delete';
+  name: FactoryName;
+  entity: { id?: string } & Record<string, unknown>;
+}
+
+// Survives crashed workers so the next setup or teardown can sweep it
+const LEDGER_PATH =
+  process.env.TEST_DATA_LEDGER ||
+  path.join(process.cwd(), 'playwright', '.test-data', 'ledger.jsonl');
+
+/**
+ * Adapter for a plain REST collection: POST to create, DELETE /:id to delete.
+ * `unwrap` picks the entity out of responses such as `{ user: {...} }`.
+ */
+export function restAdapter(
+  collectionPath: string,
+  options: { createPath?: string; unwrap?: string } = {}
+): EntityAdapter {
+  return {
+    async create(api, entity) {
+      const createPath = options.createPath || collectionPath;
+      const response = await api.postResponse<Record<string, unknown>>(
+        createPath,
+        entity
+      );
+      if (response.status >= 400) {
+        throw new Error(
+          `POST ${createPath} failed with ${response.status}: ` +
+            JSON.stringify(response.body)
+        );
+      }
+      const created = options.unwrap
+        ? (response.body[options.unwrap] as Record<string, unknown>)
+        : response.body;
+      // Keep fields the API does not echo back, such as passwords
+      return { ...entity, ...created };
+    },
+    async delete(api, entity) {
+      if (!entity.id) return;
+      const endpoint = `${collectionPath}/${entity.id}`;
+      const response = await api.deleteResponse(endpoint);
+      // Already gone is fine, e.g. the test deleted it itself
+      if (response.status >= 400 && response.status !== 404) {
+        throw new Error(`DELETE ${endpoint} failed with ${response.status}`);
+      }
+    },
+  };
+}
+
+const adapters = new Map<string, EntityAdapter>([
+  [
+    'user',
+    restAdapter('/users', { createPath: '/auth/register', unwrap: 'user' }),
+  ],
+  ['product', restAdapter('/products')],
+  ['address', restAdapter('/addresses')],
+  ['order', restAdapter('/orders')],
+]);
+
+/**
+ * Register or replace how a factory's entities are saved and removed
+ */
+export function registerAdapter(
+  name: FactoryName,
+  adapter: EntityAdapter
+): void {
+  adapters.set(name, adapter);
+}
+
+/**
+ * Creates factory entities through the API and deletes them again, newest
+ * first. Associations are created before their owners, so reverse creation
+ * order is reverse dependency order.
+ */
+export class TestDataRegistry {
+  private created: LedgerEntry[] = [];
+
+  constructor(
+    private api: ApiTesting,
+    private generator: DataGenerator = random
+  ) {}
+
+  async create<N extends FactoryName>(
+    name: N,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): Promise<FactoryTypes[N]> {
+    return factories.withGenerator(this.generator).createWith(
+      async (entityName, entity) => {
+        const saved = await adapterFor(entityName).create(this.api, entity);
+        const entry: LedgerEntry = {
+          action: 'create',
+          name: entityName,
+          entity: saved,
+        };
+        this.created.push(entry);
+        appendLedger(entry);
+        return saved;
+      },
+      name,
+      overrides,
+      ...traits
+    );
+  }
+
+  async createList<N extends FactoryName>(
+    name: N,
+    count: number,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): Promise<FactoryTypes[N][]> {
+    const entities: FactoryTypes[N][] = [];
+    for (let i = 0; i < count; i++) {
+      entities.push(await this.create(name, overrides, ...traits));
+    }
+    return entities;
+  }
+
+  getCreated(): { name: FactoryName; entity: unknown }[] {
+    return this.created.map(({ name, entity }) => ({ name, entity }));
+  }
+
+  /**
+   * Delete everything this registry created; keeps going past failures and
+   * reports them together
+   */
+  async cleanup(): Promise<void> {
+    const entries = this.created.reverse();
+    this.created = [];
+    await deleteEntries(this.api, entries);
+  }
+}
+
+/**
+ * Base URL the `api` project sends requests to
+ */
+export function apiBaseURL(config: FullConfig): string {
+  return (
+    config.projects.find((project) => project.name === 'api')?.use.baseURL ||
+    process.env.API_BASE_URL ||
+    'http://localhost:3000/api'
+  );
+}
+
+/**
+ * Delete entities left behind by runs or workers that never reached their
+ * own cleanup, logged in as the admin test user
+ */
+export async function sweepLeftovers(baseURL: string): Promise<number> {
+  if (!fs.existsSync(LEDGER_PATH)) return 0;
+
+  const pending = new Map<string, LedgerEntry>();
+  for (const line of fs.readFileSync(LEDGER_PATH, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    const entry: LedgerEntry = JSON.parse(line);
+    const key = `${entry.name}:${entry.entity.id}`;
+    if (entry.action === 'create') {
+      pending.set(key, entry);
+    } else {
+      pending.delete(key);
+    }
+  }
+
+  const entries = [...pending.values()].reverse();
+  if (entries.length > 0) {
+    const admin = testData.getUser('admin');
+    const context = await request.newContext({ baseURL });
+    try {
+      const api = new ApiTesting(
+        context,
+        new PasswordLoginAuth({
+          username: admin.email,
+          password: admin.password,
+        })
+      );
+      await deleteEntries(api, entries);
+    } finally {
+      await context.dispose();
+    }
+  }
+
+  fs.rmSync(LEDGER_PATH, { force: true });
+  return entries.length;
+}
+
+async function deleteEntries(
+  api: ApiTesting,
+  entries: LedgerEntry[]
+): Promise<void> {
+  const failures: string[] = [];
+
+  for (const entry of entries) {
+    try {
+      await adapterFor(entry.name).delete(api, entry.entity);
+      appendLedger({ ...entry, action: 'delete' });
+    } catch (error) {
+      failures.push(`${entry.name} ${entry.entity.id}: ${error}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Test data cleanup failed:\n${failures.join('\n')}`);
+  }
+}
+
+function adapterFor(name: string): EntityAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`No API adapter registered for "${name}"`);
+  }
+  return adapter;
+}
+
+function appendLedger(entry: LedgerEntry): void {
+  fs.mkdirSync(path.dirname(LEDGER_PATH), { recursive: true });
+  fs.appendFileSync(
+    LEDGER_PATH,
+    `${JSON.stringify({
+      action: entry.action,
+      name: entry.name,
+      entity: { id: entry.entity.id },
+    })}\n`
+  );
+}
@@ -0,0 +1,330 @@
+// Test data factories: defaults, sequences, traits and associations per entity
+
+import { TestAddress, TestOrder, TestProduct, TestUser } from './test-data';
+import { DataGenerator, random } from '../utils/data-generator';
+import { PasswordGenerator } from './password-policy';
+
+/**
+ * Entities the factories know about. Register your own by augmenting it:
+ *
+ *   declare module '../config/factories' {
+ *     interface FactoryTypes { coupon: TestCoupon }
+ *   }
+ *   factories.define('coupon', { defaults: (n) => ({ code: `SAVE${n}` }) });
+ */
+export interface FactoryTypes {
+  user: TestUser;
+  product: TestProduct;
+  address: TestAddress;
+  order: TestOrder;
+}
+
+export type FactoryName = keyof FactoryTypes & string;
+
+export interface Association {
+  factory: FactoryName;
+  traits?: string[];
+  /** Build a list of this many entities instead of one */
+  count?: number;
+  /** Keep only this attribute of the associated entity, e.g. `id` */
+  pick?: string;
+}
+
+export type Trait<T> = Partial<T> | ((entity: T, n: number) => Partial<T>);
+
+export interface FactoryDefinition<T> {
+  /**
+   * Default attributes; `n` is the factory's sequence number for this
+   * generator, from 1, and `generator` the seeded generator of the calling
+   * test (or the worker's)
+   */
+  defaults: (n: number, generator: DataGenerator) => T;
+  traits?: Record<string, Trait<T>>;
+  /** Attributes filled from other factories unless given as overrides */
+  associations?: { [K in keyof T]?: Association };
+  /** Derive attributes from the final values, e.g. an order total */
+  afterBuild?: (entity: T) => void;
+}
+
+/** Attributes of an entity while it is being built */
+export type EntityRecord = Record<string, unknown>;
+
+/** Saves a built entity and returns it as stored, e.g. with its new id */
+export type Persister = (
+  name: FactoryName,
+  entity: EntityRecord
+) => Promise<EntityRecord>;
+
+export class FactoryRegistry {
+  private definitions = new Map<string, FactoryDefinition<EntityRecord>>();
+  // Sequences are kept per generator, so a seeded test numbers its entities
+  // the same way whatever ran before it in the worker
+  private sequences = new WeakMap<DataGenerator, Map<string, number>>();
+  private generator: DataGenerator = random;
+  private persister?: Persister;
+
+  define<N extends FactoryName>(
+    name: N,
+    definition: FactoryDefinition<FactoryTypes[N]>
+  ): void {
+    this.definitions.set(
+      name,
+      definition as unknown as FactoryDefinition<EntityRecord>
+    );
+  }
+
+  /**
+   * The same factories drawing random defaults from `generator`, e.g. a
+   * test's seeded one. Definitions and the persister are shared; sequences
+   * belong to the generator.
+   */
+  withGenerator(generator: DataGenerator): FactoryRegistry {
+    const scoped: FactoryRegistry = Object.create(this);
+    scoped.generator = generator;
+    return scoped;
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Replace how `create` stores entities; in memory by default
+   */
+  setPersister(persister: Persister): void {
+    this.persister = persister;
+  }
+
+  /** Restart the sequences of the generator this registry draws from */
+  resetSequences(): void {
+    this.sequences.delete(this.generator);
+  }
+
+  /**
+   * Build an entity in memory without saving it or its associations
+   */
+  build<N extends FactoryName>(
+    name: N,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): FactoryTypes[N] {
+    const { entity, associations, definition } = this.attributes(
+      name,
+      overrides,
+      traits
+    );
+
+    for (const [key, association] of associations) {
+      entity[key] = this.resolve(
+        association,
+        Array.from({ length: association.count ?? 1 }, () =>
+          this.build(association.factory, {}, ...(association.traits || []))
+        )
+      );
+    }
+
+    definition.afterBuild?.(entity);
+    return entity as unknown as FactoryTypes[N];
+  }
+
+  buildList<N extends FactoryName>(
+    name: N,
+    count: number,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): FactoryTypes[N][] {
+    return Array.from({ length: count }, () =>
+      this.build(name, overrides, ...traits)
+    );
+  }
+
+  /**
+   * Build and save an entity; associations are created first
+   */
+  async create<N extends FactoryName>(
+    name: N,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): Promise<FactoryTypes[N]> {
+    return this.createWith(
+      this.persister ?? ((entityName, entity) => this.keep(entityName, entity)),
+      name,
+      overrides,
+      ...traits
+    );
+  }
+
+  /**
+   * Like `create`, saving the entity and its associations with `persister`
+   */
+  async createWith<N extends FactoryName>(
+    persister: Persister,
+    name: N,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): Promise<FactoryTypes[N]> {
+    const { entity, associations, definition } = this.attributes(
+      name,
+      overrides,
+      traits
+    );
+
+    for (const [key, association] of associations) {
+      const created: unknown[] = [];
+      for (let i = 0; i < (association.count ?? 1); i++) {
+        created.push(
+          await this.createWith(
+            persister,
+            association.factory,
+            {},
+            ...(association.traits || [])
+          )
+        );
+      }
+      entity[key] = this.resolve(association, created);
+    }
+
+    definition.afterBuild?.(entity);
+    return (await persister(name, entity)) as unknown as FactoryTypes[N];
+  }
+
+  async createList<N extends FactoryName>(
+    name: N,
+    count: number,
+    overrides: Partial<FactoryTypes[N]> = {},
+    ...traits: string[]
+  ): Promise<FactoryTypes[N][]> {
+    const entities: FactoryTypes[N][] = [];
+    for (let i = 0; i < count; i++) {
+      entities.push(await this.create(name, overrides, ...traits));
+    }
+    return entities;
+  }
+
+  private attributes(name: string, overrides: object, traits: string[]) {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`No factory defined for "${name}"`);
+    }
+
+    let sequences = this.sequences.get(this.generator);
+    if (!sequences) {
+      sequences = new Map();
+      this.sequences.set(this.generator, sequences);
+    }
+    const n = (sequences.get(name) || 0) + 1;
+    sequences.set(name, n);
+
+    let entity = definition.defaults(n, this.generator);
+    for (const traitName of traits) {
+      const trait = definition.traits?.[traitName];
+      if (!trait) {
+        throw new Error(`Factory "${name}" has no trait "${traitName}"`);
+      }
+      entity = {
+        ...entity,
+        ...(typeof trait === 'function' ? trait(entity, n) : trait),
+      };
+    }
+    entity = { ...entity, ...overrides };
+
+    // Overrides win over associations, so tests can pass existing entities
+    const associations = Object.entries(
+      (definition.associations || {}) as Record<string, Association>
+    ).filter(([key]) => (overrides as EntityRecord)[key] === undefined);
+
+    return { entity, associations, definition };
+  }
+
+  // Default persister: keeps the entity in memory with an id from the
+  // generator
+  private async keep(
+    name: FactoryName,
+    entity: EntityRecord
+  ): Promise<EntityRecord> {
+    return { ...entity, id: entity.id ?? this.generator.unique(`${name}_`) };
+  }
+
+  private resolve(association: Association, entities: unknown[]): unknown {
+    const values = association.pick
+      ? entities.map(
+        (entity) => (entity as EntityRecord)[association.pick as string]
+      )
+      : entities;
+    return association.count === undefined ? values[0] : values;
+  }
+}
+
+export const factories = new FactoryRegistry();
+
+factories.define('user', {
+  defaults: (n, generator) => ({
+    username: generator.unique(`testuser${n}_`),
+    email: `${generator.unique(`testuser${n}.`)}@example.com`,
+    password: new PasswordGenerator({}, generator).generate(),
+    firstName: 'Test',
+    lastName: `User${n}`,
+    role: 'user',
+  }),
+  traits: {
+    admin: { role: 'admin', firstName: 'Admin' },
+    moderator: { role: 'moderator', firstName: 'Moderator' },
+  },
+});
+
+factories.define('product', {
+  defaults: (n) => ({
+    name: `Test Product ${n}`,
+    description: 'Auto-generated test product',
+    price: 19.99,
+    category: 'Electronics',
+    inStock: true,
+    imageUrl: 'https://via.placeholder.com/300x300',
+  }),
+  traits: {
+    outOfStock: { inStock: false },
+    premium: (product) => ({
+      price: 999.99,
+      name: `Premium ${product.name}`,
+    }),
+  },
+});
+
+factories.define('address', {
+  defaults: (n) => ({
+    street: `${n} Test Street`,
+    city: 'Springfield',
+    postalCode: '12345',
+    country: 'US',
+  }),
+  traits: {
+    international: {
+      city: 'Berlin',
+      postalCode: '10115',
+      country: 'DE',
+    },
+  },
+});
+
+factories.define('order', {
+  defaults: () => ({
+    items: [{ quantity: 1, price: 19.99 }],
+    status: 'pending',
+  }),
+  traits: {
+    paid: { status: 'paid' },
+    shipped: { status: 'shipped' },
+    cancelled: { status: 'cancelled' },
+  },
+  associations: {
+    userId: { factory: 'user', pick: 'id' },
+    shippingAddress: { factory: 'address' },
+  },
+  afterBuild: (order) => {
+    order.total =
+      Math.round(
+        order.items.reduce((sum, item) => sum + item.price * item.quantity, 0) *
+          100
+      ) / 100;
+  },
+});
@@ -1,11 +1,24 @@
-import { FullConfig } from '@playwright/test';
+import { Browser, FullConfig, chromium } from '@playwright/test';
+import { USER_ROLES, ensureStorageState } from './auth-state';
+import { resetApiCoverage } from '../utils/openapi-contract';
+import { startMockApi } from '../utils/mock-server';
+import { apiBaseURL, sweepLeftovers } from './data-registry';
+import { ensureTestSeed } from '../utils/data-generator';
+import { resetRunSummary } from '../utils/visual-testing';
 
-async function globalSetup(_config: FullConfig) {
+async function globalSetup(config: FullConfig) {
   console.log('🚀 Starting global setup...');
 
   // Setup environment variables
   process.env.TEST_START_TIME = new Date().toISOString();
 
+  // Workers inherit the seed, so generated test data can be reproduced
+  const seed = ensureTestSeed();
+  console.log(`🎲 Test data seed: ${seed} (rerun with TEST_SEED=${seed})`);
+
+  // The advanced reporter writes a new summary; without it, prune refuses
+  resetRunSummary();
+
   // Create necessary directories
   const fs = require('fs');
   const path = require('path');
@@ -27,18 +40,88 @@ async function globalSetup(_config: FullConfig) {
     }
   });
 
+  // Start OpenAPI coverage from a clean slate
+  if (process.env.OPENAPI_SPEC) {
+    resetApiCoverage();
+  }
+
+  // Serve the API from local route files instead of the real backend
+  if (process.env.MOCK_API === 'true') {
+    const url = await startMockApi();
+    console.log(`🧪 Mock API listening on ${url}`);
+  }
+
   // Setup test data
-  await setupTestData();
+  await setupTestData(config);
+
+  // Optionally log in once per role up front; asRole() logs in on first use
+  await setupAuthStates(config);
 
   console.log('✅ Global setup completed');
 }
 
-async function setupTestData() {
-  // Initialize any test data, database connections, etc.
+async function setupTestData(config: FullConfig) {
   console.log('📊 Setting up test data...');
 
-  // Example: Create test users, seed data, etc.
-  // This would typically involve API calls or database setup
+  // Entities from an interrupted run are still listed in the ledger
+  try {
+    const removed = await sweepLeftovers(apiBaseURL(config));
+    if (removed > 0) {
+      console.log(`   🗑️ Removed ${removed} entities left by a previous run`);
+    }
+  } catch (error) {
+    console.log(`   ⚠️  Could not remove leftover test data: ${error}`);
+  }
+}
+
+async function setupAuthStates(config: FullConfig) {
+  // Mocked runs have no login page
+  if (process.env.AUTH_SETUP !== 'true' || process.env.MOCK_API === 'true') {
+    return;
+  }
+
+  const baseURL =
+    config.projects.find((project) => project.name === 'chromium')?.use
+      .baseURL ||
+    process.env.BASE_URL ||
+    'http://localhost:3000';
+
+  console.log('🔐 Preparing login sessions...');
+
+  let browser: Browser;
+  try {
+    browser = await chromium.launch();
+  } catch (error) {
+    console.log(
+      `   ⚠️  Could not launch Chromium to log in (${firstLine(error)}); ` +
+        'asRole() will log in on first use'
+    );
+    return;
+  }
+
+  try {
+    for (const role of USER_ROLES) {
+      try {
+        await ensureStorageState(browser, role, baseURL);
+        console.log(`   ✅ ${role}`);
+      } catch (error) {
+        // Likely the same for every role; don't wait out each login timeout
+        console.log(
+          `   ⚠️  Could not log in as ${role} at ${baseURL}: ` +
+            `${firstLine(error)}\n` +
+            '   asRole() will log in on first use'
+        );
+        break;
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+}
+
+// Playwright errors carry a multi-line call log; the first line says enough
+function firstLine(error: unknown): string {
+  return String(error instanceof Error ? error.message : error).split('\n')[0];
 }
 
 export default globalSetup;
@@ -1,22 +1,39 @@
 import { FullConfig } from '@playwright/test';
+import { generateApiCoverageReport } from '../utils/openapi-contract';
+import { stopMockApi } from '../utils/mock-server';
+import { apiBaseURL, sweepLeftovers } from './data-registry';
 
-async function globalTeardown(_config: FullConfig) {
+async function globalTeardown(config: FullConfig) {
   console.log('🧹 Starting global teardown...');
 
   // Cleanup test data
-  await cleanupTestData();
+  await cleanupTestData(config);
 
   // Generate test summary
   generateTestSummary();
 
+  // Report spec operations no test exercised
+  if (process.env.OPENAPI_SPEC) {
+    reportApiCoverage(process.env.OPENAPI_SPEC);
+  }
+
+  await stopMockApi();
+
   console.log('✅ Global teardown completed');
 }
 
-async function cleanupTestData() {
+async function cleanupTestData(config: FullConfig) {
   console.log('🗑️ Cleaning up test data...');
 
-  // Example: Remove test users, cleanup database, etc.
-  // This would typically involve API calls or database cleanup
+  // Tests and workers clean up after themselves; this catches crashed ones
+  try {
+    const removed = await sweepLeftovers(apiBaseURL(config));
+    if (removed > 0) {
+      console.log(`   🗑️ Removed ${removed} entities left by tests`);
+    }
+  } catch (error) {
+    console.log(`   ⚠️  Could not remove test data: ${error}`);
+  }
 }
 
 function generateTestSummary() {
@@ -33,4 +50,18 @@ function generateTestSummary() {
   );
 }
 
+function reportApiCoverage(specPath: string) {
+  const report = generateApiCoverageReport(specPath);
+
+  console.log('📑 OpenAPI Coverage:');
+  console.log(
+    `   Operations: ${report.coveredOperations}/${
+      report.totalOperations
+    } (${report.coverage.toFixed(1)}%)`
+  );
+  report.uncovered.forEach((operation) => {
+    console.log(`   ⚠️  Not covered: ${operation.method} ${operation.path}`);
+  });
+}
+
 export default globalTeardown;
@@ -0,0 +1,281 @@
+// Password policy: generate passwords that satisfy it, or break one rule
+
+import { DataGenerator, random } from '../utils/data-generator';
+
+export type CharClass = 'lower' | 'upper' | 'digit' | 'symbol';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  /** Classes that must each appear at least once */
+  require: CharClass[];
+  /** Symbols the backend accepts */
+  symbols: string;
+  /** Words that may not appear, compared case-insensitively */
+  forbidden: string[];
+  /** Longest allowed run like `abc` or `321`; 0 allows any */
+  maxSequence: number;
+  /** Most times one character may repeat in a row; 0 allows any */
+  maxRepeat: number;
+  /** Whether the username (or email local part) may appear */
+  allowUsername: boolean;
+}
+
+export type PasswordRule =
+  | 'tooShort'
+  | 'tooLong'
+  | 'missingLower'
+  | 'missingUpper'
+  | 'missingDigit'
+  | 'missingSymbol'
+  | 'forbiddenWord'
+  | 'sequence'
+  | 'repeated'
+  | 'containsUsername';
+
+export interface InvalidPassword {
+  /** The one rule this password breaks */
+  rule: PasswordRule;
+  password: string;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  maxLength: 64,
+  require: ['lower', 'upper', 'digit', 'symbol'],
+  symbols: '!@#$%^&*',
+  forbidden: ['password', 'qwerty', 'letmein'],
+  maxSequence: 3,
+  maxRepeat: 2,
+  allowUsername: false,
+};
+
+const CLASS_CHARS: Record<Exclude<CharClass, 'symbol'>, string> = {
+  lower: 'abcdefghijklmnopqrstuvwxyz',
+  upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digit: '0123456789',
+};
+
+const MISSING_RULES: Record<CharClass, PasswordRule> = {
+  lower: 'missingLower',
+  upper: 'missingUpper',
+  digit: 'missingDigit',
+  symbol: 'missingSymbol',
+};
+
+const MAX_ATTEMPTS = 200;
+
+export class PasswordGenerator {
+  readonly policy: PasswordPolicy;
+
+  constructor(
+    policy: Partial<PasswordPolicy> = {},
+    private rng: DataGenerator = random
+  ) {
+    this.policy = { ...DEFAULT_PASSWORD_POLICY, ...policy };
+    if (this.policy.minLength > this.policy.maxLength) {
+      throw new Error('Password policy minLength is above maxLength');
+    }
+  }
+
+  /**
+   * A password that satisfies every rule of the policy
+   */
+  generate(username?: string): string {
+    const { minLength, maxLength, require } = this.policy;
+    const length = Math.min(maxLength, minLength + this.rng.int(0, 4));
+
+    return this.attempt([], username, () => this.compose(length, require));
+  }
+
+  /**
+   * One password per rule the policy enforces, each breaking only that rule
+   */
+  invalidVariants(username?: string): InvalidPassword[] {
+    const { minLength, maxLength, require } = this.policy;
+    const variants: InvalidPassword[] = [];
+    const add = (rule: PasswordRule, build: () => string) =>
+      variants.push({ rule, password: this.attempt([rule], username, build) });
+
+    if (minLength > 1 && minLength - 1 >= require.length) {
+      add('tooShort', () => this.compose(minLength - 1, require));
+    }
+    if (maxLength < 1024) {
+      add('tooLong', () => this.compose(maxLength + 1, require));
+    }
+    for (const charClass of require) {
+      const others = require.filter((other) => other !== charClass);
+      add(MISSING_RULES[charClass], () =>
+        this.compose(
+          minLength,
+          others.length > 0 ? others : this.fallbackClasses(charClass)
+        )
+      );
+    }
+    if (this.policy.forbidden.length > 0) {
+      add('forbiddenWord', () =>
+        this.withInsert(this.rng.pick(this.policy.forbidden))
+      );
+    }
+    if (this.policy.maxSequence > 0) {
+      add('sequence', () =>
+        this.withInsert('abcdefghij'.slice(0, this.policy.maxSequence + 1))
+      );
+    }
+    if (this.policy.maxRepeat > 0) {
+      add('repeated', () =>
+        this.withInsert('x'.repeat(this.policy.maxRepeat + 1))
+      );
+    }
+    if (username && !this.policy.allowUsername) {
+      add('containsUsername', () =>
+        this.withInsert(this.usernamePart(username))
+      );
+    }
+
+    return variants;
+  }
+
+  /**
+   * Rules of the policy the password breaks; empty when it is valid
+   */
+  check(password: string, username?: string): PasswordRule[] {
+    const policy = this.policy;
+    const broken: PasswordRule[] = [];
+    const lower = password.toLowerCase();
+
+    if (password.length < policy.minLength) broken.push('tooShort');
+    if (password.length > policy.maxLength) broken.push('tooLong');
+    for (const charClass of policy.require) {
+      const chars = this.classChars(charClass);
+      if (![...password].some((char) => chars.includes(char))) {
+        broken.push(MISSING_RULES[charClass]);
+      }
+    }
+    if (policy.forbidden.some((word) => lower.includes(word.toLowerCase()))) {
+      broken.push('forbiddenWord');
+    }
+    if (
+      policy.maxSequence > 0 &&
+      this.longestSequence(password) > policy.maxSequence
+    ) {
+      broken.push('sequence');
+    }
+    if (
+      policy.maxRepeat > 0 &&
+      this.longestRepeat(password) > policy.maxRepeat
+    ) {
+      broken.push('repeated');
+    }
+    if (
+      username &&
+      !policy.allowUsername &&
+      lower.includes(this.usernamePart(username).toLowerCase())
+    ) {
+      broken.push('containsUsername');
+    }
+
+    return broken;
+  }
+
+  // Retry random builds until exactly the expected rules are broken
+  private attempt(
+    expected: PasswordRule[],
+    username: string | undefined,
+    build: () => string
+  ): string {
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      const password = build();
+      const broken = this.check(password, username);
+      if (
+        broken.length === expected.length &&
+        expected.every((rule) => broken.includes(rule))
+      ) {
+        return password;
+      }
+    }
+    throw new Error(
+      `Could not generate a password breaking [${expected.join(', ')}] ` +
+        'with this policy; it may be contradictory'
+    );
+  }
+
+  // One character of each class, filled up with any of them and shuffled
+  private compose(length: number, required: CharClass[]): string {
+    // Policies without required classes still get letters and digits
+    const classes: CharClass[] =
+      required.length > 0 ? required : ['lower', 'digit'];
+    const alphabet = classes.map((charClass) => this.classChars(charClass));
+    const chars = alphabet.map((chars) => this.rng.pick([...chars]));
+    const all = [...alphabet.join('')];
+
+    while (chars.length < length) chars.push(this.rng.pick(all));
+    return this.rng.shuffle(chars).slice(0, length).join('');
+  }
+
+  // A valid-length password with `insert` placed somewhere inside it
+  private withInsert(insert: string): string {
+    const { minLength, maxLength, require } = this.policy;
+    const length = Math.min(
+      maxLength,
+      Math.max(minLength, insert.length + require.length)
+    );
+    const base = this.compose(
+      Math.max(require.length, length - insert.length),
+      require
+    );
+    const at = this.rng.int(0, base.length);
+    return base.slice(0, at) + insert + base.slice(at);
+  }
+
+  private fallbackClasses(excluded: CharClass): CharClass[] {
+    return (['lower', 'upper', 'digit', 'symbol'] as CharClass[]).filter(
+      (charClass) => charClass !== excluded
+    );
+  }
+
+  private classChars(charClass: CharClass): string {
+    return charClass === 'symbol'
+      ? this.policy.symbols
+      : CLASS_CHARS[charClass];
+  }
+
+  private usernamePart(username: string): string {
+    return username.split('@')[0];
+  }
+
+  // Runs of consecutive letters (any case) or digits, up or down
+  private longestSequence(password: string): number {
+    const kind = (char: string) =>
+      /[a-z]/.test(char) ? 'letter' : /\d/.test(char) ? 'digit' : undefined;
+    let longest = password.length > 0 ? 1 : 0;
+    let run = 1;
+    let step = 0;
+
+    for (let i = 1; i < password.length; i++) {
+      const previous = password[i - 1].toLowerCase();
+      const current = password[i].toLowerCase();
+      const diff = current.charCodeAt(0) - previous.charCodeAt(0);
+
+      const sameKind = kind(previous) && kind(previous) === kind(current);
+      if (sameKind && Math.abs(diff) === 1) {
+        run = run > 1 && diff === step ? run + 1 : 2;
+        step = diff;
+      } else {
+        run = 1;
+      }
+      longest = Math.max(longest, run);
+    }
+    return longest;
+  }
+
+  private longestRepeat(password: string): number {
+    let longest = password.length > 0 ? 1 : 0;
+    let run = 1;
+    for (let i = 1; i < password.length; i++) {
+      run = password[i] === password[i - 1] ? run + 1 : 1;
+      longest = Math.max(longest, run);
+    }
+    return longest;
+  }
+}
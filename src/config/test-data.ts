@@ -1,5 +1,13 @@
 // Test data configuration and management
 
+import { FactoryRegistry, factories } from './factories';
+import { DataGenerator, random } from '../utils/data-generator';
+import {
+  InvalidPassword,
+  PasswordGenerator,
+  PasswordPolicy,
+} from './password-policy';
+
 export interface TestUser {
   id?: string;
   username: string;
@@ -20,12 +28,38 @@ export interface TestProduct {
   imageUrl?: string;
 }
 
+export interface TestAddress {
+  id?: string;
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface TestOrderItem {
+  productId?: string;
+  quantity: number;
+  price: number;
+}
+
+export interface TestOrder {
+  id?: string;
+  userId?: string;
+  items: TestOrderItem[];
+  shippingAddress?: TestAddress;
+  status?: 'pending' | 'paid' | 'shipped' | 'cancelled';
+  total?: number;
+}
+
 export class TestDataManager {
   private static instance: TestDataManager;
   private users: TestUser[] = [];
   private products: TestProduct[] = [];
 
-  private constructor() {
+  private constructor(
+    readonly namespace = '',
+    private generator: DataGenerator = random
+  ) {
     this.initializeDefaultData();
   }
 
@@ -36,61 +70,72 @@ export class TestDataManager {
     return TestDataManager.instance;
   }
 
+  /**
+   * A manager of its own, e.g. per test: the seed data plus whatever it
+   * generates, with `namespace` baked into generated usernames, emails and
+   * product names so parallel tests never collide
+   */
+  public static forNamespace(
+    namespace: string,
+    generator: DataGenerator = random
+  ): TestDataManager {
+    return new TestDataManager(namespace, generator);
+  }
+
   private initializeDefaultData(): void {
-    // Default test users
+    const factories = this.factories();
+
+    // Seed users keep fixed credentials; saved login sessions rely on them
     this.users = [
-      {
+      factories.build('user', {
         username: 'testuser',
         email: 'testuser@example.com',
         password: 'TestPassword123!',
-        firstName: 'Test',
-        lastName: 'User',
-        role: 'user',
-      },
-      {
-        username: 'adminuser',
-        email: 'admin@example.com',
-        password: 'AdminPassword123!',
-        firstName: 'Admin',
         lastName: 'User',
-        role: 'admin',
-      },
-      {
-        username: 'moderator',
-        email: 'moderator@example.com',
-        password: 'ModeratorPassword123!',
-        firstName: 'Moderator',
-        lastName: 'User',
-        role: 'moderator',
-      },
+      }),
+      factories.build(
+        'user',
+        {
+          username: 'adminuser',
+          email: 'admin@example.com',
+          password: 'AdminPassword123!',
+          lastName: 'User',
+        },
+        'admin'
+      ),
+      factories.build(
+        'user',
+        {
+          username: 'moderator',
+          email: 'moderator@example.com',
+          password: 'ModeratorPassword123!',
+          lastName: 'User',
+        },
+        'moderator'
+      ),
     ];
 
-    // Default test products
     this.products = [
-      {
+      factories.build('product', {
         name: 'Test Product 1',
         description: 'This is a test product for automation testing',
-        price: 19.99,
-        category: 'Electronics',
-        inStock: true,
-        imageUrl: 'https://via.placeholder.com/300x300',
-      },
-      {
+      }),
+      factories.build('product', {
         name: 'Test Product 2',
         description: 'Another test product for automation testing',
         price: 29.99,
         category: 'Books',
-        inStock: true,
-        imageUrl: 'https://via.placeholder.com/300x300',
-      },
-      {
-        name: 'Out of Stock Product',
-        description: 'This product is out of stock for testing',
-        price: 39.99,
-        category: 'Clothing',
-        inStock: false,
-        imageUrl: 'https://via.placeholder.com/300x300',
-      },
+      }),
+      factories.build(
+        'product',
+        {
+          name: 'Out of Stock Product',
+          description: 'This product is out of stock for testing',
+          price: 39.99,
+          category: 'Clothing',
+        },
+        'outOfStock'
+      ),
     ];
   }
 
@@ -107,16 +152,17 @@ export class TestDataManager {
     return [...this.users]; // Return a copy
   }
 
-  public createUser(userData: Partial<TestUser>): TestUser {
-    const timestamp = Date.now();
+  public createUser(
+    userData: Partial<TestUser> = {},
+    ...traits: string[]
+  ): TestUser {
+    const user = this.factories().build('user', userData, ...traits);
+    // Explicit values are kept as given; only generated ones are namespaced
     const newUser: TestUser = {
-      username: userData.username || `testuser${timestamp}`,
-      email: userData.email || `test${timestamp}@example.com`,
-      password: userData.password || 'TestPassword123!',
-      firstName: userData.firstName || 'Test',
-      lastName: userData.lastName || 'User',
-      role: userData.role || 'user',
-      id: `user_${timestamp}`,
+      ...user,
+      username: userData.username ?? this.withNamespace(user.username),
+      email: userData.email ?? this.withNamespace(user.email),
+      id: userData.id || this.generator.unique(this.idPrefix('user')),
     };
 
     this.users.push(newUser);
@@ -145,61 +191,95 @@ export class TestDataManager {
     return this.products.filter((p) => p.inStock).map((p) => ({ ...p }));
   }
 
-  public createProduct(productData: Partial<TestProduct>): TestProduct {
-    const timestamp = Date.now();
+  public createProduct(
+    productData: Partial<TestProduct> = {},
+    ...traits: string[]
+  ): TestProduct {
+    const product = this.factories().build(
+      'product',
+      productData,
+      ...traits
+    );
     const newProduct: TestProduct = {
-      name: productData.name || `Test Product ${timestamp}`,
-      description: productData.description || 'Auto-generated test product',
-      price: productData.price || 19.99,
-      category: productData.category || 'Test Category',
-      inStock: productData.inStock ?? true,
-      imageUrl: productData.imageUrl || 'https://via.placeholder.com/300x300',
-      id: `product_${timestamp}`,
+      ...product,
+      name: productData.name ?? this.withNamespace(product.name, ' '),
+      id: productData.id || this.generator.unique(this.idPrefix('product')),
     };
 
     this.products.push(newProduct);
     return { ...newProduct };
   }
 
-  // Utility methods
+  // Utility methods; seeded by TEST_SEED so failures can be reproduced
   public generateRandomEmail(): string {
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 1000);
-    return `test${timestamp}${random}@example.com`;
+    return this.withNamespace(this.generator.email());
   }
 
   public generateRandomUsername(): string {
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 1000);
-    return `testuser${timestamp}${random}`;
+    return this.withNamespace(this.generator.username());
   }
 
   public generateRandomPassword(): string {
-    const chars =
-      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-    let password = '';
-    for (let i = 0; i < 12; i++) {
-      password += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return password;
+    return this.generatePassword();
+  }
+
+  /**
+   * Password that satisfies the policy (the backend's by default)
+   */
+  public generatePassword(
+    policy: Partial<PasswordPolicy> = {},
+    username?: string
+  ): string {
+    return new PasswordGenerator(policy, this.generator).generate(username);
+  }
+
+  /**
+   * Passwords for negative tests, each labeled with the one rule it breaks
+   */
+  public generateInvalidPasswords(
+    policy: Partial<PasswordPolicy> = {},
+    username?: string
+  ): InvalidPassword[] {
+    return new PasswordGenerator(policy, this.generator).invalidVariants(
+      username
+    );
   }
 
-  // Cleanup methods
+  // Cleanup methods; they only remove data generated in this namespace
   public clearGeneratedUsers(): void {
-    this.users = this.users.filter((user) => !user.id?.startsWith('user_'));
+    const prefix = this.idPrefix('user');
+    this.users = this.users.filter((user) => !user.id?.startsWith(prefix));
   }
 
   public clearGeneratedProducts(): void {
+    const prefix = this.idPrefix('product');
     this.products = this.products.filter(
-      (product) => !product.id?.startsWith('product_')
+      (product) => !product.id?.startsWith(prefix)
     );
   }
 
-  public reset(): void {
+  public cleanup(): void {
     this.clearGeneratedUsers();
     this.clearGeneratedProducts();
+  }
+
+  public reset(): void {
+    // Rebuilds the seeds instead of adding to them, so they never duplicate
     this.initializeDefaultData();
   }
+
+  /** Factories drawing random defaults from this manager's generator */
+  private factories(): FactoryRegistry {
+    return factories.withGenerator(this.generator);
+  }
+
+  private withNamespace(value: string, separator = '_'): string {
+    return this.namespace ? `${this.namespace}${separator}${value}` : value;
+  }
+
+  private idPrefix(kind: 'user' | 'product'): string {
+    return this.namespace ? `${kind}_${this.namespace}_` : `${kind}_`;
+  }
 }
 
 // Export singleton instance
@@ -2,29 +2,83 @@ import {
   Reporter,
   TestCase,
   TestResult,
+  FullConfig,
   FullResult,
-} from "@playwright/test/reporter";
-import { AdvancedReporting } from "../utils/advanced-reporting";
+  Suite,
+} from '@playwright/test/reporter';
+import {
+  AdvancedReporting,
+  ApiRetryReport,
+  BrowserReport,
+} from '../utils/advanced-reporting';
+import { VisualReport, escapeHtml } from '../utils/visual-report';
+import {
+  RunTestRef,
+  VisualRunSummary,
+  projectFolder,
+  readComparisons,
+  resetComparisons,
+  writeRunSummary,
+} from '../utils/visual-testing';
 import fs from "fs";
 import path from "path";
 
+// CLI options that take a value, so it is not read as a spec filter
+const VALUE_OPTIONS = [
+  '-c',
+  '--config',
+  '-g',
+  '--grep',
+  '--grep-invert',
+  '-j',
+  '--workers',
+  '--global-timeout',
+  '--max-failures',
+  '--output',
+  '--project',
+  '--repeat-each',
+  '--reporter',
+  '--retries',
+  '--shard',
+  '--timeout',
+  '--trace',
+  '--tsconfig',
+];
+
+// CLI options that run only part of the suite
+const FILTER_OPTIONS = [
+  '-g',
+  '--grep',
+  '--grep-invert',
+  '--last-failed',
+  '--only-changed',
+  '--shard',
+];
+
 export class AdvancedReporter implements Reporter {
   private advancedReporting: AdvancedReporting;
   private startTime: Date;
+  private config?: FullConfig;
+  private suite?: Suite;
+  private filters: VisualRunSummary['filters'] = 'unknown';
 
   constructor() {
     this.advancedReporting = new AdvancedReporting();
     this.startTime = new Date();
   }
 
-  onBegin(config: any, suite: any) {
+  onBegin(config: FullConfig, suite: Suite) {
     console.log(`🚀 Starting ${suite.allTests().length} tests`);
     this.startTime = new Date();
+    this.config = config;
+    this.suite = suite;
+    this.filters = this.runFilters();
+    this.resetVisualComparisons(suite);
   }
 
   onTestEnd(test: TestCase, result: TestResult) {
     // Add result to our advanced reporting
-    this.advancedReporting.addTestResult(result);
+    this.advancedReporting.addTestResult(result, test);
 
     // Log test completion with status
     const status = this.getStatusIcon(result.status);
@@ -32,7 +86,9 @@ export class AdvancedReporter implements Reporter {
     console.log(`${status} ${test.title} (${duration})`);
   }
 
-  async onEnd(_result: FullResult) {
+  async onEnd(result: FullResult) {
+    this.writeVisualRunSummary(result);
+
     const endTime = new Date();
     const totalDuration = endTime.getTime() - this.startTime.getTime();
 
@@ -48,6 +104,90 @@ export class AdvancedReporter implements Reporter {
     console.log("\n📋 Reports generated in: test-results/advanced-reports/");
   }
 
+  /**
+   * Lets `visual:baselines prune` refuse after runs that left tests out
+   */
+  private writeVisualRunSummary(result: FullResult): void {
+    const tests = this.suite?.allTests() || [];
+    const withOutcome = (outcome: ReturnType<TestCase['outcome']>) =>
+      tests
+        .filter((test) => test.outcome() === outcome)
+        .map(
+          (test): RunTestRef => ({
+            project: test.parent.project()?.name || '',
+            title: test.titlePath().slice(3).join(' › '),
+          })
+        );
+
+    writeRunSummary({
+      status: result.status,
+      filters: this.filters,
+      failed: withOutcome('unexpected'),
+      skipped: withOutcome('skipped'),
+    });
+  }
+
+  /**
+   * Drop the previous results of the comparisons this run repeats: every
+   * comparison of its projects when it is unfiltered, else those of the
+   * tests it runs. Pending comparisons of other tests are kept.
+   */
+  private resetVisualComparisons(suite: Suite): void {
+    const tests = suite.allTests();
+    const key = (project: string, file: string, title: string) =>
+      [project, file, title].join('\n');
+
+    if (Array.isArray(this.filters) && this.filters.length === 0) {
+      const projects = new Set(
+        tests.map((test) => projectFolder(test.parent.project()?.name || ''))
+      );
+      resetComparisons((record) => projects.has(record.project));
+      return;
+    }
+
+    const rerun = new Set(
+      tests.map((test) =>
+        key(
+          projectFolder(test.parent.project()?.name || ''),
+          path.relative(process.cwd(), test.location.file),
+          test.titlePath().slice(3).join(' › ')
+        )
+      )
+    );
+    resetComparisons((record) =>
+      rerun.has(key(record.project, record.testFile, record.testTitle))
+    );
+  }
+
+  /**
+   * Filters that ran only part of the suite. CLI filters are not part of
+   * the config reporters get, so they are read from the `playwright test`
+   * command line; runs started another way, e.g. from an IDE, report them
+   * as unknown.
+   */
+  private runFilters(): VisualRunSummary['filters'] {
+    const [, script = '', command] = process.argv;
+    if (!/playwright/.test(script) || command !== 'test') return 'unknown';
+
+    const filters = new Set<string>();
+    const grep = this.config?.grep;
+    if (grep && String(grep) !== String(/.*/)) filters.add(`grep ${grep}`);
+    if (this.config?.grepInvert) filters.add('grepInvert');
+    if (this.config?.shard) filters.add('shard');
+
+    const args = process.argv.slice(3);
+    for (let i = 0; i < args.length; i++) {
+      const [option] = args[i].split('=');
+      if (FILTER_OPTIONS.includes(option)) {
+        filters.add(option);
+      } else if (!option.startsWith('-')) {
+        filters.add(option);
+      }
+      if (VALUE_OPTIONS.includes(option) && !args[i].includes('=')) i++;
+    }
+    return [...filters];
+  }
+
   private async generateReports() {
     const reportsDir = path.join(
       process.cwd(),
@@ -89,25 +229,67 @@ export class AdvancedReporter implements Reporter {
       JSON.stringify(browserReport, null, 2)
     );
 
+    // Generate API retry report
+    const apiRetryReport = this.advancedReporting.generateApiRetryReport();
+    fs.writeFileSync(
+      path.join(reportsDir, 'api-retries.json'),
+      JSON.stringify(apiRetryReport, null, 2)
+    );
+
     // Generate HTML summary report
     await this.generateHtmlSummary(
       performanceMetrics,
       flakyReport,
-      browserReport
+      browserReport,
+      apiRetryReport
     );
 
+    // Generate visual review page when the run compared screenshots
+    const visualReport = new VisualReport(readComparisons());
+    if (visualReport.size > 0) {
+      visualReport.write(path.join(reportsDir, 'visual-review.html'));
+    }
+
     console.log("✅ Advanced reports generated:");
     console.log("   📄 JSON Report: advanced-test-report.json");
     console.log("   📊 Performance: performance-metrics.json");
     console.log("   🔄 Flaky Tests: flaky-tests.json");
     console.log("   🌐 Browser Compatibility: browser-compatibility.json");
+    console.log(
+      `   🔁 API Retries: api-retries.json (${apiRetryReport.totalRetries} retries)`
+    );
     console.log("   📋 HTML Summary: test-summary.html");
+    if (visualReport.size > 0) {
+      console.log('   🖼️  Visual Review: visual-review.html');
+    }
+  }
+
+  private apiRetriesSection(apiRetries: ApiRetryReport): string {
+    if (apiRetries.totalRetries === 0) return '';
+
+    const endpoints = Object.entries(apiRetries.byEndpoint).map(
+      ([endpoint, count]) => `
+                <li class="browser-item">
+                    <span class="browser-name">${escapeHtml(endpoint)}</span>
+                    <span class="browser-stats">${count} retries</span>
+                </li>`
+    );
+    return `
+        <div class="section">
+            <h2>🔁 API Retries</h2>
+            <p><strong>Total Retries:</strong>
+                ${apiRetries.totalRetries} in ${apiRetries.testsWithRetries} tests
+            </p>
+            <ul class="browser-list">${endpoints.join('')}
+            </ul>
+        </div>`;
   }
 
   private async generateHtmlSummary(
     performance: any,
     flaky: any,
-    browser: any
+    browser: BrowserReport,
+    apiRetries: ApiRetryReport
   ) {
     const htmlContent = `
 <!DOCTYPE html>
@@ -318,6 +500,8 @@ export class AdvancedReporter implements Reporter {
             : ""
         }
 
+        ${this.apiRetriesSection(apiRetries)}
+
         <div class="timestamp">
             Report generated on ${new Date().toLocaleString()}
         </div>
@@ -1,14 +1,19 @@
-import { TestResult } from '@playwright/test/reporter';
+import { TestCase, TestResult } from '@playwright/test/reporter';
+import { RetryRecord } from './retry-policy';
 
 export class AdvancedReporting {
   private results: TestResult[] = [];
+  private titles = new Map<TestResult, string>();
   private startTime: Date = new Date();
 
   /**
    * Collect test metrics
    */
-  addTestResult(result: TestResult): void {
+  addTestResult(result: TestResult, test?: TestCase): void {
     this.results.push(result);
+    if (test) {
+      this.titles.set(result, test.titlePath().filter(Boolean).join(' › '));
+    }
   }
 
   /**
@@ -101,6 +106,41 @@ export class AdvancedReporting {
     };
   }
 
+  /**
+   * Generate report of API requests retried by ApiTesting
+   */
+  generateApiRetryReport(): ApiRetryReport {
+    const tests: ApiRetryReport['tests'] = [];
+
+    this.results.forEach((result) => {
+      const attachment = result.attachments.find(
+        (a) => a.name === 'api-retries' && a.body
+      );
+      if (!attachment?.body) return;
+
+      tests.push({
+        title: this.titles.get(result) || 'Unknown Test',
+        finalStatus: result.status,
+        retries: JSON.parse(attachment.body.toString('utf-8')),
+      });
+    });
+
+    const byEndpoint: Record<string, number> = {};
+    tests.forEach((test) =>
+      test.retries.forEach((retry) => {
+        const key = `${retry.method} ${retry.endpoint}`;
+        byEndpoint[key] = (byEndpoint[key] || 0) + 1;
+      })
+    );
+
+    return {
+      totalRetries: tests.reduce((sum, t) => sum + t.retries.length, 0),
+      testsWithRetries: tests.length,
+      byEndpoint,
+      tests,
+    };
+  }
+
   /**
    * Export to JSON for external tools
    */
@@ -115,6 +155,7 @@ export class AdvancedReporting {
       performance: this.generatePerformanceReport(),
       flaky: this.generateFlakyTestReport(),
       browsers: this.generateBrowserReport(),
+      apiRetries: this.generateApiRetryReport(),
       rawResults: this.results.map((r) => ({
         title: (r as any).title || 'Unknown Test',
         status: r.status,
@@ -237,7 +278,7 @@ interface FlakyTestReport {
   }>;
 }
 
-interface BrowserReport {
+export interface BrowserReport {
   browsers: Array<{
     name: string;
     passed: number;
@@ -247,6 +288,17 @@ interface BrowserReport {
   }>;
 }
 
+export interface ApiRetryReport {
+  totalRetries: number;
+  testsWithRetries: number;
+  byEndpoint: Record<string, number>;
+  tests: Array<{
+    title: string;
+    finalStatus: string;
+    retries: RetryRecord[];
+  }>;
+}
+
 interface TrendData {
   passRateTrend: 'improving' | 'declining' | 'stable';
   durationTrend: 'improving' | 'declining' | 'stable';
@@ -0,0 +1,207 @@
+import { Page, Request, Route, expect } from '@playwright/test';
+
+type AbortReason = NonNullable<Parameters<Route['abort']>[0]>;
+
+const DEFAULT_TIMEOUT_STEP_MS = 30000;
+
+export interface MockCall {
+  /** 1-based position of the call on this route */
+  index: number;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text when it is not JSON */
+  body: unknown;
+}
+
+export interface MockStep {
+  status?: number;
+  /** Serialized as the JSON response body */
+  json?: unknown;
+  /** Raw response body, sent as-is */
+  body?: string;
+  headers?: Record<string, string>;
+  contentType?: string;
+  /** Wait before answering, in milliseconds */
+  delay?: number;
+  /**
+   * Hold the request so the client's own timeout fires, then abort it as
+   * timed out; `true` waits 30s, a number waits that many milliseconds
+   */
+  timeout?: boolean | number;
+  /** Drop the connection, optionally with a specific network error */
+  abort?: boolean | AbortReason;
+  /** Cut the JSON body short so parsing it fails */
+  malformed?: boolean;
+  /** Answer this many calls before moving to the next step */
+  times?: number;
+}
+
+/** Builds the response from the request, e.g. echoing its body */
+export type MockResponder = (call: MockCall) => MockStep | Promise<MockStep>;
+
+export interface MockScenarioOptions {
+  /** Start over after the last step instead of repeating it */
+  loop?: boolean;
+}
+
+/**
+ * A mocked route that answers with a sequence of steps and records every call
+ */
+export class ApiMock {
+  private calls: MockCall[] = [];
+  private steps: (MockStep | MockResponder)[] = [];
+  private handler = (route: Route) => this.handle(route);
+
+  constructor(
+    private page: Page,
+    readonly urlPattern: string | RegExp,
+    steps: (MockStep | MockResponder)[],
+    private options: MockScenarioOptions = {}
+  ) {
+    if (steps.length === 0) {
+      throw new Error('A mock scenario needs at least one step');
+    }
+
+    // Expand `times` so each call maps to exactly one step
+    for (const step of steps) {
+      const times = typeof step === 'function' ? 1 : step.times || 1;
+      for (let i = 0; i < times; i++) this.steps.push(step);
+    }
+  }
+
+  async install(): Promise<this> {
+    await this.page.route(this.urlPattern, this.handler);
+    return this;
+  }
+
+  async remove(): Promise<void> {
+    await this.page.unroute(this.urlPattern, this.handler);
+  }
+
+  getCalls(): MockCall[] {
+    return [...this.calls];
+  }
+
+  get callCount(): number {
+    return this.calls.length;
+  }
+
+  /**
+   * Assert how often the route was hit
+   */
+  expectCalled(times: number): void {
+    expect(
+      this.calls.length,
+      `${this.urlPattern} should be called ${times} time(s)`
+    ).toBe(times);
+  }
+
+  /**
+   * Assert the request body of a call (the latest by default) contains payload
+   */
+  expectCalledWith(payload: unknown, nth = this.calls.length): void {
+    const call = this.calls[nth - 1];
+    expect(call, `${this.urlPattern} has no call #${nth}`).toBeDefined();
+    expect(call.body).toMatchObject(payload as Record<string, unknown>);
+  }
+
+  /**
+   * Wait until the route has been hit at least `count` times
+   */
+  async waitForCalls(count: number, timeout = 10000): Promise<MockCall[]> {
+    await expect
+      .poll(() => this.calls.length, {
+        message: `${this.urlPattern} should be called ${count} time(s)`,
+        timeout,
+      })
+      .toBeGreaterThanOrEqual(count);
+    return this.getCalls();
+  }
+
+  private async handle(route: Route): Promise<void> {
+    const call = this.record(route.request());
+    const step = await this.resolveStep(call);
+
+    if (step.delay) {
+      await new Promise((resolve) => setTimeout(resolve, step.delay));
+    }
+
+    if (step.timeout) {
+      await this.holdRequest(
+        step.timeout === true ? DEFAULT_TIMEOUT_STEP_MS : step.timeout
+      );
+      // The page may have closed or given up on the request meanwhile
+      await route.abort('timedout').catch(() => undefined);
+      return;
+    }
+
+    if (step.abort) {
+      await route.abort(step.abort === true ? 'failed' : step.abort);
+      return;
+    }
+
+    // An explicit null is sent as `null`; a step without json as `{}`
+    let body =
+      step.body ??
+      (step.json !== undefined ? JSON.stringify(step.json) : '{}');
+    if (step.malformed) {
+      body = body.slice(0, Math.max(1, Math.floor(body.length / 2)));
+    }
+
+    await route.fulfill({
+      status: step.status ?? 200,
+      headers: step.headers,
+      contentType:
+        step.contentType ??
+        (step.body !== undefined ? 'text/plain' : 'application/json'),
+      body,
+    });
+  }
+
+  private record(request: Request): MockCall {
+    const text = request.postData();
+    let body: unknown = text;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep the raw text for form and plain bodies
+      }
+    }
+
+    const call: MockCall = {
+      index: this.calls.length + 1,
+      method: request.method(),
+      url: request.url(),
+      headers: request.headers(),
+      body,
+    };
+    this.calls.push(call);
+    return call;
+  }
+
+  /**
+   * Wait for `ms`, or less if the page closes first
+   */
+  private holdRequest(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.page.off('close', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.page.once('close', done);
+    });
+  }
+
+  private async resolveStep(call: MockCall): Promise<MockStep> {
+    const position = call.index - 1;
+    const step = this.options.loop
+      ? this.steps[position % this.steps.length]
+      : this.steps[Math.min(position, this.steps.length - 1)];
+
+    return typeof step === 'function' ? step(call) : step;
+  }
+}
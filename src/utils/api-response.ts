@@ -0,0 +1,87 @@
+import { APIResponse } from '@playwright/test';
+
+export interface ApiRequestInfo {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+}
+
+/**
+ * Everything a test may want to assert on after an API call: status, headers,
+ * parsed body, timing and the request that produced it
+ */
+export class ApiResponse<T = unknown> {
+  readonly status: number;
+  readonly statusText: string;
+  readonly ok: boolean;
+  /** Response headers with lower-cased names; repeated headers are joined */
+  readonly headers: Record<string, string>;
+
+  constructor(
+    readonly raw: APIResponse,
+    readonly body: T,
+    readonly duration: number,
+    readonly request: ApiRequestInfo
+  ) {
+    this.status = raw.status();
+    this.statusText = raw.statusText();
+    this.ok = raw.ok();
+    this.headers = raw.headers();
+  }
+
+  /**
+   * Get a single header value (case-insensitive)
+   */
+  header(name: string): string | undefined {
+    return this.headers[name.toLowerCase()];
+  }
+
+  /**
+   * Get every value of a header that may repeat, such as `Set-Cookie`
+   */
+  headerValues(name: string): string[] {
+    const lowerName = name.toLowerCase();
+    return this.raw
+      .headersArray()
+      .filter((header) => header.name.toLowerCase() === lowerName)
+      .map((header) => header.value);
+  }
+
+  /**
+   * Parse `Set-Cookie` headers into name/value pairs
+   */
+  cookies(): Record<string, string> {
+    const cookies: Record<string, string> = {};
+
+    for (const header of this.headerValues('set-cookie')) {
+      const [pair] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        cookies[pair.slice(0, separator).trim()] = pair
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+
+    return cookies;
+  }
+
+  /**
+   * Rate-limit headers in their common `X-RateLimit-*` / `RateLimit-*` forms
+   */
+  rateLimit(): { limit?: number; remaining?: number; reset?: number } {
+    const read = (suffix: string) => {
+      const value =
+        this.header(`x-ratelimit-${suffix}`) ??
+        this.header(`ratelimit-${suffix}`);
+      return value !== undefined ? Number(value) : undefined;
+    };
+
+    return {
+      limit: read('limit'),
+      remaining: read('remaining'),
+      reset: read('reset'),
+    };
+  }
+}
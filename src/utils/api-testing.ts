@@ -1,165 +1,484 @@
-import { APIRequestContext, expect } from '@playwright/test';
+import { APIRequestContext, APIResponse, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { ApiResponse } from './api-response';
+import { AuthProvider } from './auth-providers';
+import { HarNetwork } from './har-network';
+import {
+  LoadSample,
+  LoadTestOptions,
+  LoadTestResult,
+  LoadTester,
+  ThresholdResult,
+  parseThreshold,
+  summarizeSamples,
+} from './load-testing';
+import {
+  RetryPolicy,
+  RetryRecord,
+  getRetryDecision,
+  resolveRetryPolicy,
+} from './retry-policy';
+import {
+  JsonSchema,
+  SchemaValidator,
+  SchemaViolation,
+} from './schema-validation';
+
+/**
+ * Body type of get/post/put/delete/patch calls without a type argument. It
+ * stays `any` so untyped call sites keep compiling; pass a type argument, or
+ * use the `*Response` methods, to get a checked body.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type UntypedBody = any;
+
+export interface ApiCall {
+  method: string;
+  endpoint: string;
+  status: number;
+  duration: number;
+}
+
+export type HttpMethod =
+  | 'GET'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'HEAD'
+  | 'OPTIONS';
+
+export interface FilePart {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+  expectedStatus?: number;
+  /** Override the instance retry policy for this request, or disable it */
+  retry?: Partial<RetryPolicy> | false;
+  /** Send an `application/x-www-form-urlencoded` body */
+  form?: Record<string, string | number | boolean>;
+  /** Send a `multipart/form-data` body; see `ApiTesting.file()` */
+  multipart?: Record<string, string | number | boolean | FilePart>;
+  /** Send a raw binary body as-is */
+  binary?: { buffer: Buffer; contentType?: string };
+}
+
+interface PreparedRequest {
+  url: string;
+  fetchOptions: {
+    method: string;
+    data?: unknown;
+    form?: ApiRequestOptions['form'];
+    multipart?: ApiRequestOptions['multipart'];
+    headers: Record<string, string>;
+  };
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+};
 
 export class ApiTesting {
-  constructor(private request: APIRequestContext) {}
+  private schemaValidator = new SchemaValidator();
+  private calls: ApiCall[] = [];
+  private retries: RetryRecord[] = [];
+  private loadResults: LoadTestResult[] = [];
+  private har?: HarNetwork;
+
+  constructor(
+    private request: APIRequestContext,
+    private auth?: AuthProvider,
+    private retryPolicy?: Partial<RetryPolicy>
+  ) {}
 
   /**
-   * Perform GET request with validation
+   * Get an instance that authenticates every request with the given provider.
+   * Call log, retry log and registered schemas are shared with this instance.
    */
-  async get(
-    endpoint: string,
-    options?: {
-      headers?: Record<string, string>;
-      params?: Record<string, string>;
-      expectedStatus?: number;
-    }
-  ): Promise<any> {
-    const url = this.buildUrl(endpoint, options?.params);
+  withAuth(auth: AuthProvider): ApiTesting {
+    return this.derive(auth, this.retryPolicy);
+  }
 
-    const response = await this.request.get(url, {
-      headers: options?.headers,
-    });
+  /**
+   * Get an instance that retries failed requests with the given policy.
+   * Call log, retry log and registered schemas are shared with this instance.
+   */
+  withRetry(policy: Partial<RetryPolicy>): ApiTesting {
+    return this.derive(this.auth, policy);
+  }
 
-    if (options?.expectedStatus) {
-      expect(response.status()).toBe(options.expectedStatus);
-    }
+  /**
+   * Record requests into, or answer them from, a HAR file
+   */
+  useHar(har: HarNetwork): void {
+    this.har = har;
+  }
 
-    return this.handleResponse(response);
+  /**
+   * Perform GET request with validation
+   */
+  async get<T = UntypedBody>(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>('GET', endpoint, options);
+    return response.body;
   }
 
   /**
    * Perform POST request with validation
    */
-  async post(
+  async post<T = UntypedBody>(
     endpoint: string,
-    data?: any,
-    options?: {
-      headers?: Record<string, string>;
-      expectedStatus?: number;
-    }
-  ): Promise<any> {
-    const response = await this.request.post(endpoint, {
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>('POST', endpoint, {
+      ...options,
       data,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
     });
+    return response.body;
+  }
 
-    if (options?.expectedStatus) {
-      expect(response.status()).toBe(options.expectedStatus);
-    }
+  /**
+   * Perform PUT request with validation
+   */
+  async put<T = UntypedBody>(
+    endpoint: string,
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>('PUT', endpoint, { ...options, data });
+    return response.body;
+  }
+
+  /**
+   * Perform DELETE request with validation
+   */
+  async delete<T = UntypedBody>(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>('DELETE', endpoint, options);
+    return response.body;
+  }
 
-    return this.handleResponse(response);
+  /**
+   * Perform GET request and return the full response
+   */
+  async getResponse<T = unknown>(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('GET', endpoint, options);
   }
 
   /**
-   * Perform PUT request with validation
+   * Perform POST request and return the full response
    */
-  async put(
+  async postResponse<T = unknown>(
     endpoint: string,
-    data?: any,
-    options?: {
-      headers?: Record<string, string>;
-      expectedStatus?: number;
-    }
-  ): Promise<any> {
-    const response = await this.request.put(endpoint, {
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('POST', endpoint, { ...options, data });
+  }
+
+  /**
+   * Perform PUT request and return the full response
+   */
+  async putResponse<T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('PUT', endpoint, { ...options, data });
+  }
+
+  /**
+   * Perform DELETE request and return the full response
+   */
+  async deleteResponse<T = unknown>(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('DELETE', endpoint, options);
+  }
+
+  /**
+   * Perform PATCH request with validation
+   */
+  async patch<T = UntypedBody>(
+    endpoint: string,
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>('PATCH', endpoint, {
+      ...options,
       data,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
     });
+    return response.body;
+  }
 
-    if (options?.expectedStatus) {
-      expect(response.status()).toBe(options.expectedStatus);
+  /**
+   * Perform PATCH request and return the full response
+   */
+  async patchResponse<T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('PATCH', endpoint, { ...options, data });
+  }
+
+  /**
+   * Perform HEAD request; the response has headers but no body
+   */
+  async head(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<undefined>> {
+    return this.send<undefined>('HEAD', endpoint, options);
+  }
+
+  /**
+   * Perform OPTIONS request
+   */
+  async options<T = unknown>(
+    endpoint: string,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('OPTIONS', endpoint, options);
+  }
+
+  /**
+   * Send a CORS preflight request and return the allowed origin, methods and
+   * headers advertised by the server
+   */
+  async corsPreflight(
+    endpoint: string,
+    request: { origin: string; method: HttpMethod; headers?: string[] }
+  ): Promise<{
+    response: ApiResponse;
+    allowOrigin?: string;
+    allowMethods: string[];
+    allowHeaders: string[];
+    allowCredentials: boolean;
+  }> {
+    const headers: Record<string, string> = {
+      Origin: request.origin,
+      'Access-Control-Request-Method': request.method,
+    };
+    if (request.headers?.length) {
+      headers['Access-Control-Request-Headers'] = request.headers.join(', ');
     }
 
-    return this.handleResponse(response);
+    const response = await this.options(endpoint, { headers });
+    const list = (name: string) =>
+      (response.header(name) || '')
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+    return {
+      response,
+      allowOrigin: response.header('access-control-allow-origin'),
+      allowMethods: list('access-control-allow-methods'),
+      allowHeaders: list('access-control-allow-headers'),
+      allowCredentials:
+        response.header('access-control-allow-credentials') === 'true',
+    };
+  }
+
+  /**
+   * Build a multipart file part from a file on disk
+   */
+  static file(filePath: string, mimeType?: string): FilePart {
+    return {
+      name: path.basename(filePath),
+      mimeType:
+        mimeType ||
+        MIME_TYPES[path.extname(filePath).toLowerCase()] ||
+        'application/octet-stream',
+      buffer: fs.readFileSync(filePath),
+    };
   }
 
   /**
-   * Perform DELETE request with validation
+   * Perform a request with any method and return the full response
    */
-  async delete(
+  async send<T = unknown>(
+    method: HttpMethod | string,
     endpoint: string,
-    options?: {
-      headers?: Record<string, string>;
-      expectedStatus?: number;
+    options?: ApiRequestOptions & { data?: unknown }
+  ): Promise<ApiResponse<T>> {
+    const startTime = Date.now();
+
+    let prepared = await this.prepareRequest(method, endpoint, options);
+    let response = await this.fetchWithRetry(method, prepared, options?.retry);
+
+    // Expired or revoked credentials: log in again and retry once
+    if (response.status() === 401 && this.auth) {
+      this.auth.invalidate();
+      // The rejected response is thrown away; free its body
+      await response.dispose();
+      prepared = await this.prepareRequest(method, endpoint, options);
+      response = await this.fetchWithRetry(method, prepared, options?.retry);
     }
-  ): Promise<any> {
-    const response = await this.request.delete(endpoint, {
-      headers: options?.headers,
+
+    const body =
+      method === 'HEAD' ? undefined : await this.handleResponse(response);
+    const duration = Date.now() - startTime;
+
+    this.calls.push({
+      method,
+      endpoint: prepared.url.split('?')[0],
+      status: response.status(),
+      duration,
     });
 
     if (options?.expectedStatus) {
       expect(response.status()).toBe(options.expectedStatus);
     }
 
-    return this.handleResponse(response);
+    return new ApiResponse<T>(response, body as T, duration, {
+      method,
+      url: response.url(),
+      headers: prepared.fetchOptions.headers,
+      data: options?.multipart || options?.form || prepared.fetchOptions.data,
+    });
   }
 
   /**
-   * Validate response schema
+   * Requests made through this instance, in order
    */
-  async validateSchema(responseData: any, expectedSchema: any): Promise<void> {
-    // Basic schema validation - in a real implementation, you might use a library like Joi or Yup
-    for (const [key, expectedType] of Object.entries(expectedSchema)) {
-      expect(responseData).toHaveProperty(key);
+  getCallLog(): ApiCall[] {
+    return [...this.calls];
+  }
 
-      if (typeof expectedType === 'string') {
-        expect(typeof responseData[key]).toBe(expectedType);
-      } else if (Array.isArray(expectedType)) {
-        expect(Array.isArray(responseData[key])).toBeTruthy();
-      } else if (typeof expectedType === 'object') {
-        expect(typeof responseData[key]).toBe('object');
-        await this.validateSchema(responseData[key], expectedType);
-      }
+  /**
+   * Retries made by this instance, in order
+   */
+  getRetryLog(): RetryRecord[] {
+    return [...this.retries];
+  }
+
+  /**
+   * Load test results from this instance, in order
+   */
+  getLoadTestResults(): LoadTestResult[] {
+    return [...this.loadResults];
+  }
+
+  /**
+   * Validate response against a JSON Schema (draft 2020-12 or OpenAPI 3.0
+   * dialect) or the id of a registered schema, reporting every violation.
+   * The legacy `{ key: 'string' }` shorthand is still accepted and converted
+   * to a schema where every listed key is required.
+   */
+  async validateSchema(
+    responseData: unknown,
+    expectedSchema: JsonSchema | string
+  ): Promise<void> {
+    const schema =
+      typeof expectedSchema === 'string' ||
+      SchemaValidator.isJsonSchema(expectedSchema)
+        ? expectedSchema
+        : SchemaValidator.fromShorthand(expectedSchema);
+
+    this.schemaValidator.assertValid(responseData, schema);
+  }
+
+  /**
+   * Register a schema document so it can be referenced by id, e.g.
+   * `auth.schema.json#/$defs/user`
+   */
+  registerSchema(schema: JsonSchema, id?: string): void {
+    const schemaId =
+      id || (typeof schema === 'object' ? (schema.$id as string) : undefined);
+    if (!schemaId) {
+      throw new Error('Schema needs an $id or an explicit id to be registered');
     }
+
+    this.schemaValidator.addSchema(schema, schemaId);
   }
 
   /**
-   * Test API performance
+   * Collect schema violations without failing the test
+   */
+  getSchemaViolations(
+    responseData: unknown,
+    expectedSchema: JsonSchema | string
+  ): SchemaViolation[] {
+    return this.schemaValidator.validate(responseData, expectedSchema);
+  }
+
+  /**
+   * Test API performance with sequential requests, failing on a slow average
+   * or on any missed threshold such as `p95 < 300ms` or `errors < 1%`
    */
   async testPerformance(
     endpoint: string,
     options?: {
-      method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
-      data?: any;
+      method?: HttpMethod;
+      data?: unknown;
       maxResponseTime?: number;
       iterations?: number;
-    }
-  ): Promise<{ averageTime: number; minTime: number; maxTime: number }> {
+      thresholds?: string[];
+    } & ApiRequestOptions
+  ): Promise<{
+    averageTime: number;
+    minTime: number;
+    maxTime: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+    errorRate: number;
+    thresholds: ThresholdResult[];
+  }> {
+    const method = options?.method || 'GET';
     const iterations = options?.iterations || 5;
-    const times: number[] = [];
+    // Same syntax as loadTest; typos fail before any request is sent
+    const thresholds = (options?.thresholds || []).map((threshold) =>
+      parseThreshold(threshold)
+    );
+    const samples: LoadSample[] = [];
+    const start = Date.now();
 
     for (let i = 0; i < iterations; i++) {
       const startTime = Date.now();
 
-      switch (options?.method || 'GET') {
-      case 'GET':
-        await this.get(endpoint);
-        break;
-      case 'POST':
-        await this.post(endpoint, options?.data);
-        break;
-      case 'PUT':
-        await this.put(endpoint, options?.data);
-        break;
-      case 'DELETE':
-        await this.delete(endpoint);
-        break;
-      }
+      const response = await this.send(method, endpoint, options);
 
       const endTime = Date.now();
-      times.push(endTime - startTime);
+      samples.push({
+        startedAt: startTime,
+        latency: endTime - startTime,
+        status: response.status,
+      });
     }
 
-    const averageTime =
-      times.reduce((sum, time) => sum + time, 0) / times.length;
-    const minTime = Math.min(...times);
-    const maxTime = Math.max(...times);
+    const stats = summarizeSamples(samples, Date.now() - start);
+    const thresholdResults = thresholds.map((threshold) =>
+      threshold.evaluate(stats)
+    );
+    const averageTime = stats.latency.mean;
 
     if (options?.maxResponseTime && averageTime > options.maxResponseTime) {
       throw new Error(
@@ -167,88 +486,253 @@ export class ApiTesting {
       );
     }
 
-    return { averageTime, minTime, maxTime };
+    LoadTester.assertThresholds(
+      { name: `${method} ${endpoint}`, thresholds: thresholdResults },
+      'Performance test'
+    );
+
+    return {
+      averageTime,
+      minTime: stats.latency.min,
+      maxTime: stats.latency.max,
+      p50: stats.latency.p50,
+      p90: stats.latency.p90,
+      p95: stats.latency.p95,
+      p99: stats.latency.p99,
+      errorRate: stats.errorRate,
+      thresholds: thresholdResults,
+    };
+  }
+
+  /**
+   * Generate load against an endpoint with a number of concurrent virtual
+   * users or a target request rate, then fail on any missed threshold such as
+   * `p95 < 300ms` or `errors < 1%`
+   */
+  async loadTest(
+    endpoint: string,
+    options: LoadTestOptions & {
+      name?: string;
+      method?: HttpMethod;
+      data?: unknown;
+      headers?: Record<string, string>;
+      params?: Record<string, string>;
+    }
+  ): Promise<LoadTestResult> {
+    const method = options.method || 'GET';
+
+    // Bypass send(): retries would hide errors and logging every request
+    // would flood the call log
+    const tester = new LoadTester(
+      options.name || `${method} ${endpoint}`,
+      async () => {
+        const prepared = await this.prepareRequest(method, endpoint, options);
+        const response = await this.request.fetch(
+          prepared.url,
+          prepared.fetchOptions
+        );
+        await response.body();
+        await response.dispose();
+        return { status: response.status() };
+      }
+    );
+
+    const result = await tester.run(options);
+    this.loadResults.push(result);
+    LoadTester.assertThresholds(result);
+
+    return result;
   }
 
   /**
    * Test API with authentication
    */
-  async authenticatedRequest(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  async authenticatedRequest<T = UntypedBody>(
+    method: HttpMethod,
     endpoint: string,
     token: string,
-    data?: any
-  ): Promise<any> {
-    const headers = {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    };
-
-    switch (method) {
-    case 'GET':
-      return this.get(endpoint, { headers });
-    case 'POST':
-      return this.post(endpoint, data, { headers });
-    case 'PUT':
-      return this.put(endpoint, data, { headers });
-    case 'DELETE':
-      return this.delete(endpoint, { headers });
-    }
+    data?: unknown,
+    options?: ApiRequestOptions
+  ): Promise<T> {
+    const response = await this.send<T>(method, endpoint, {
+      ...options,
+      data,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...options?.headers,
+      },
+    });
+    return response.body;
   }
 
   /**
    * Batch API requests
    */
   async batchRequests(
-    requests: Array<{
-      method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-      endpoint: string;
-      data?: any;
-      headers?: Record<string, string>;
-    }>
-  ): Promise<any[]> {
-    const promises = requests.map((req) => {
-      switch (req.method) {
-      case 'GET':
-        return this.get(req.endpoint, { headers: req.headers });
-      case 'POST':
-        return this.post(req.endpoint, req.data, { headers: req.headers });
-      case 'PUT':
-        return this.put(req.endpoint, req.data, { headers: req.headers });
-      case 'DELETE':
-        return this.delete(req.endpoint, { headers: req.headers });
-      }
+    requests: Array<
+      {
+        method: HttpMethod;
+        endpoint: string;
+        data?: unknown;
+      } & ApiRequestOptions
+    >
+  ): Promise<UntypedBody[]> {
+    const promises = requests.map(async ({ method, endpoint, ...options }) => {
+      const response = await this.send(method, endpoint, options);
+      return response.body;
     });
 
     return Promise.all(promises);
   }
 
   /**
-   * Build URL with query parameters
+   * Fetch, retrying network errors and retryable statuses per the policy
    */
-  private buildUrl(endpoint: string, params?: Record<string, string>): string {
-    if (!params) return endpoint;
+  private async fetchWithRetry(
+    method: string,
+    prepared: PreparedRequest,
+    override?: Partial<RetryPolicy> | false
+  ): Promise<APIResponse> {
+    const policy =
+      override === false || (!this.retryPolicy && !override)
+        ? undefined
+        : resolveRetryPolicy(this.retryPolicy, override);
+
+    for (let attempt = 1; ; attempt++) {
+      let response: APIResponse | undefined;
+      let failure: unknown;
+
+      try {
+        response = this.har
+          ? await this.har.fetch(
+            this.request,
+            prepared.url,
+            prepared.fetchOptions
+          )
+          : await this.request.fetch(prepared.url, prepared.fetchOptions);
+      } catch (error) {
+        failure = error;
+      }
+
+      const decision = policy
+        ? getRetryDecision(policy, method, attempt, response, failure)
+        : null;
+
+      if (!decision) {
+        if (failure) throw failure;
+        return response as APIResponse;
+      }
+
+      // The retried response is thrown away; free its body
+      await response?.dispose();
+
+      this.retries.push({
+        method,
+        endpoint: prepared.url.split('?')[0],
+        attempt,
+        reason: decision.reason,
+        delayMs: decision.delayMs,
+        timestamp: new Date().toISOString(),
+      });
 
-    const url = new URL(endpoint, 'http://localhost');
-    Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
+      await new Promise((resolve) => setTimeout(resolve, decision.delayMs));
+    }
+  }
+
+  private derive(
+    auth?: AuthProvider,
+    retryPolicy?: Partial<RetryPolicy>
+  ): ApiTesting {
+    const derived = new ApiTesting(this.request, auth, retryPolicy);
+    derived.calls = this.calls;
+    derived.retries = this.retries;
+    derived.loadResults = this.loadResults;
+    derived.har = this.har;
+    derived.schemaValidator = this.schemaValidator;
+    return derived;
+  }
+
+  /**
+   * Resolve URL, auth credentials, headers and body for a request
+   */
+  private async prepareRequest(
+    method: string,
+    endpoint: string,
+    options?: ApiRequestOptions & { data?: unknown }
+  ): Promise<PreparedRequest> {
+    const credentials = this.auth
+      ? await this.auth.getCredentials(this.request)
+      : {};
+    const url = this.buildUrl(endpoint, {
+      ...credentials.params,
+      ...options?.params,
     });
+    const headers: Record<string, string> = {
+      ...credentials.headers,
+      ...options?.headers,
+    };
+    let data = options?.data;
+
+    const hasContentType = Object.keys(headers).some(
+      (name) => name.toLowerCase() === 'content-type'
+    );
+
+    if (options?.binary) {
+      data = options.binary.buffer;
+      if (!hasContentType) {
+        headers['Content-Type'] =
+          options.binary.contentType || 'application/octet-stream';
+      }
+    } else if (
+      !hasContentType &&
+      !options?.form &&
+      !options?.multipart &&
+      (data !== undefined || ['POST', 'PUT', 'PATCH'].includes(method))
+    ) {
+      // Playwright sets form and multipart content types, boundary included
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return {
+      url,
+      fetchOptions: {
+        method,
+        data,
+        form: options?.form,
+        multipart: options?.multipart,
+        headers,
+      },
+    };
+  }
+
+  /**
+   * Append query parameters, keeping absolute URLs and relative paths as given
+   */
+  private buildUrl(endpoint: string, params?: Record<string, string>): string {
+    if (!params || Object.keys(params).length === 0) return endpoint;
+
+    const query = new URLSearchParams(params).toString();
+    const [withoutHash, hash] = endpoint.split('#');
+    const separator = withoutHash.includes('?') ? '&' : '?';
 
-    return url.pathname + url.search;
+    return `${withoutHash}${separator}${query}${hash ? `#${hash}` : ''}`;
   }
 
   /**
    * Handle response and extract data
    */
-  private async handleResponse(response: any): Promise<any> {
+  private async handleResponse(response: APIResponse): Promise<unknown> {
     const contentType = response.headers()['content-type'] || '';
+    const buffer = await response.body();
 
-    if (contentType.includes('application/json')) {
-      return response.json();
+    if (/application\/([\w.-]+\+)?json/.test(contentType)) {
+      return buffer.length > 0
+        ? JSON.parse(buffer.toString('utf-8'))
+        : undefined;
     } else if (contentType.includes('text/')) {
-      return response.text();
+      return buffer.toString('utf-8');
     } else {
-      return response.body();
+      return buffer;
     }
   }
 }
@@ -0,0 +1,453 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+export interface AuthCredentials {
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+  cookies?: Array<{ name: string; value: string }>;
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  /**
+   * Credentials to attach to the next request, logging in or refreshing the
+   * cached token first when needed
+   */
+  getCredentials(request: APIRequestContext): Promise<AuthCredentials>;
+  /**
+   * Drop cached credentials, e.g. after the server answered 401
+   */
+  invalidate(): void;
+}
+
+interface CachedToken {
+  value: string;
+  expiresAt?: number;
+  refreshToken?: string;
+}
+
+// Tokens are shared by every provider instance in this worker process
+const tokenCache = new Map<string, CachedToken>();
+
+// Refresh a little before the server would reject the token
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+/**
+ * Base class for strategies that obtain a token from the server and cache it
+ * per worker until it expires
+ */
+abstract class TokenAuthProvider implements AuthProvider {
+  abstract readonly name: string;
+  private pending?: Promise<CachedToken>;
+
+  protected abstract get cacheKey(): string;
+
+  protected abstract fetchToken(
+    request: APIRequestContext,
+    previous?: CachedToken
+  ): Promise<CachedToken>;
+
+  protected abstract toCredentials(token: string): AuthCredentials;
+
+  async getCredentials(request: APIRequestContext): Promise<AuthCredentials> {
+    const cached = tokenCache.get(this.cacheKey);
+    if (cached && !this.isExpired(cached)) {
+      return this.toCredentials(cached.value);
+    }
+
+    // Parallel requests in the same test share one login
+    if (!this.pending) {
+      this.pending = this.fetchToken(request, cached).finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    const token = await this.pending;
+    tokenCache.set(this.cacheKey, token);
+    return this.toCredentials(token.value);
+  }
+
+  invalidate(): void {
+    const cached = tokenCache.get(this.cacheKey);
+    if (cached?.refreshToken) {
+      // Keep the refresh token so the next call can use it
+      tokenCache.set(this.cacheKey, { ...cached, expiresAt: 0 });
+    } else {
+      tokenCache.delete(this.cacheKey);
+    }
+  }
+
+  protected isExpired(token: CachedToken): boolean {
+    return (
+      token.expiresAt !== undefined &&
+      token.expiresAt - EXPIRY_SKEW_MS <= Date.now()
+    );
+  }
+
+  /**
+   * Work out when a token expires from `expires_in` or the JWT `exp` claim
+   */
+  protected expiresAt(token: string, expiresIn?: unknown): number | undefined {
+    if (typeof expiresIn === 'number' || typeof expiresIn === 'string') {
+      const seconds = Number(expiresIn);
+      if (!Number.isNaN(seconds)) return Date.now() + seconds * 1000;
+    }
+
+    const [, payload] = token.split('.');
+    if (!payload) return undefined;
+
+    try {
+      const claims = JSON.parse(
+        Buffer.from(payload, 'base64url').toString('utf-8')
+      );
+      return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  protected async readJson(
+    response: APIResponse,
+    action: string
+  ): Promise<Record<string, unknown>> {
+    if (!response.ok()) {
+      throw new Error(
+        `${action} failed: ${response.status()} ${await response.text()}`
+      );
+    }
+    return response.json();
+  }
+
+  /**
+   * A token field of the response, failing rather than sending
+   * `Bearer undefined` when the server left it out
+   */
+  protected readToken(
+    body: Record<string, unknown>,
+    field: string,
+    action: string
+  ): string {
+    const token = body[field];
+    if (typeof token !== 'string' || token === '') {
+      throw new Error(`${action} response has no "${field}" field`);
+    }
+    return token;
+  }
+}
+
+/**
+ * Username/password login against `/auth/login` returning a bearer token
+ */
+export class PasswordLoginAuth extends TokenAuthProvider {
+  readonly name = 'password';
+
+  constructor(
+    private options: {
+      username: string;
+      password: string;
+      endpoint?: string;
+      tokenField?: string;
+      expiresInField?: string;
+    }
+  ) {
+    super();
+  }
+
+  protected get cacheKey(): string {
+    return `password:${this.options.endpoint || '/auth/login'}:${
+      this.options.username
+    }`;
+  }
+
+  protected async fetchToken(request: APIRequestContext): Promise<CachedToken> {
+    const response = await request.post(
+      this.options.endpoint || '/auth/login',
+      {
+        data: {
+          username: this.options.username,
+          password: this.options.password,
+        },
+      }
+    );
+    const body = await this.readJson(
+      response,
+      `Login for ${this.options.username}`
+    );
+
+    const token = this.readToken(
+      body,
+      this.options.tokenField || 'token',
+      'Login'
+    );
+
+    return {
+      value: token,
+      expiresAt: this.expiresAt(
+        token,
+        body[this.options.expiresInField || 'expiresIn']
+      ),
+    };
+  }
+
+  protected toCredentials(token: string): AuthCredentials {
+    return { headers: { Authorization: `Bearer ${token}` } };
+  }
+}
+
+/**
+ * OAuth2 client-credentials grant
+ */
+export class OAuth2ClientCredentialsAuth extends TokenAuthProvider {
+  readonly name = 'oauth2-client-credentials';
+
+  constructor(
+    private options: {
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      scope?: string;
+      audience?: string;
+    }
+  ) {
+    super();
+  }
+
+  protected get cacheKey(): string {
+    return `client-credentials:${this.options.tokenUrl}:${
+      this.options.clientId
+    }:${this.options.scope || ''}`;
+  }
+
+  protected async fetchToken(request: APIRequestContext): Promise<CachedToken> {
+    const form: Record<string, string> = {
+      grant_type: 'client_credentials',
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+    };
+    if (this.options.scope) form.scope = this.options.scope;
+    if (this.options.audience) form.audience = this.options.audience;
+
+    const response = await request.post(this.options.tokenUrl, { form });
+    const action = 'Client credentials grant';
+    const body = await this.readJson(response, action);
+    const token = this.readToken(body, 'access_token', action);
+
+    return {
+      value: token,
+      expiresAt: this.expiresAt(token, body.expires_in),
+    };
+  }
+
+  protected toCredentials(token: string): AuthCredentials {
+    return { headers: { Authorization: `Bearer ${token}` } };
+  }
+}
+
+/**
+ * OAuth2 refresh-token grant; rotated refresh tokens are kept for next time
+ */
+export class OAuth2RefreshTokenAuth extends TokenAuthProvider {
+  readonly name = 'oauth2-refresh-token';
+
+  constructor(
+    private options: {
+      tokenUrl: string;
+      refreshToken: string;
+      clientId?: string;
+      clientSecret?: string;
+      scope?: string;
+    }
+  ) {
+    super();
+  }
+
+  protected get cacheKey(): string {
+    return `refresh-token:${this.options.tokenUrl}:${
+      this.options.clientId || ''
+    }`;
+  }
+
+  protected async fetchToken(
+    request: APIRequestContext,
+    previous?: CachedToken
+  ): Promise<CachedToken> {
+    const refreshToken = previous?.refreshToken || this.options.refreshToken;
+    const form: Record<string, string> = {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    };
+    if (this.options.clientId) form.client_id = this.options.clientId;
+    if (this.options.clientSecret) {
+      form.client_secret = this.options.clientSecret;
+    }
+    if (this.options.scope) form.scope = this.options.scope;
+
+    const response = await request.post(this.options.tokenUrl, { form });
+    const action = 'Refresh token grant';
+    const body = await this.readJson(response, action);
+    const token = this.readToken(body, 'access_token', action);
+
+    return {
+      value: token,
+      expiresAt: this.expiresAt(token, body.expires_in),
+      refreshToken:
+        typeof body.refresh_token === 'string'
+          ? body.refresh_token
+          : refreshToken,
+    };
+  }
+
+  protected toCredentials(token: string): AuthCredentials {
+    return { headers: { Authorization: `Bearer ${token}` } };
+  }
+}
+
+/**
+ * Static API key sent as a header or query parameter
+ */
+export class ApiKeyAuth implements AuthProvider {
+  readonly name = 'api-key';
+
+  constructor(
+    private options: {
+      key: string;
+      name?: string;
+      in?: 'header' | 'query';
+    }
+  ) {}
+
+  async getCredentials(): Promise<AuthCredentials> {
+    const defaultName = this.options.in === 'query' ? 'api_key' : 'X-API-Key';
+    const name = this.options.name || defaultName;
+
+    return this.options.in === 'query'
+      ? { params: { [name]: this.options.key } }
+      : { headers: { [name]: this.options.key } };
+  }
+
+  invalidate(): void {
+    // Static keys cannot be refreshed
+  }
+}
+
+/**
+ * HTTP Basic authentication
+ */
+export class BasicAuth implements AuthProvider {
+  readonly name = 'basic';
+
+  constructor(private options: { username: string; password: string }) {}
+
+  async getCredentials(): Promise<AuthCredentials> {
+    const encoded = Buffer.from(
+      `${this.options.username}:${this.options.password}`
+    ).toString('base64');
+    return { headers: { Authorization: `Basic ${encoded}` } };
+  }
+
+  invalidate(): void {
+    // Nothing cached
+  }
+}
+
+/**
+ * Form or JSON login that establishes a cookie session
+ */
+export class CookieSessionAuth implements AuthProvider {
+  readonly name = 'cookie-session';
+  private pending?: Promise<Array<{ name: string; value: string }>>;
+
+  constructor(
+    private options: {
+      username: string;
+      password: string;
+      endpoint?: string;
+      /** Post the credentials as a form instead of JSON */
+      form?: boolean;
+    }
+  ) {}
+
+  private get cacheKey(): string {
+    return `cookie:${this.options.endpoint || '/auth/login'}:${
+      this.options.username
+    }`;
+  }
+
+  async getCredentials(request: APIRequestContext): Promise<AuthCredentials> {
+    const cached = tokenCache.get(this.cacheKey);
+    if (cached) return this.toCredentials(JSON.parse(cached.value));
+
+    if (!this.pending) {
+      this.pending = this.login(request).finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    const cookies = await this.pending;
+    tokenCache.set(this.cacheKey, { value: JSON.stringify(cookies) });
+    return this.toCredentials(cookies);
+  }
+
+  invalidate(): void {
+    tokenCache.delete(this.cacheKey);
+  }
+
+  private async login(
+    request: APIRequestContext
+  ): Promise<Array<{ name: string; value: string }>> {
+    const credentials = {
+      username: this.options.username,
+      password: this.options.password,
+    };
+    const response = await request.post(
+      this.options.endpoint || '/auth/login',
+      this.options.form ? { form: credentials } : { data: credentials }
+    );
+
+    if (!response.ok()) {
+      throw new Error(
+        `Session login for ${
+          this.options.username
+        } failed: ${response.status()}`
+      );
+    }
+
+    const cookies = response
+      .headersArray()
+      .filter((header) => header.name.toLowerCase() === 'set-cookie')
+      .map((header) => {
+        const [pair] = header.value.split(';');
+        const separator = pair.indexOf('=');
+        return {
+          name: pair.slice(0, separator).trim(),
+          value: pair.slice(separator + 1).trim(),
+        };
+      })
+      .filter((cookie) => cookie.name);
+
+    if (cookies.length === 0) {
+      throw new Error('Session login response did not set any cookies');
+    }
+
+    return cookies;
+  }
+
+  private toCredentials(
+    cookies: Array<{ name: string; value: string }>
+  ): AuthCredentials {
+    return {
+      headers: {
+        Cookie: cookies
+          .map((cookie) => `${cookie.name}=${cookie.value}`)
+          .join('; '),
+      },
+      cookies,
+    };
+  }
+}
+
+/**
+ * Forget every cached token in this worker
+ */
+export function clearAuthCache(): void {
+  tokenCache.clear();
+}
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+/** Columns every table may use besides its own parameters */
+export interface DataRowMeta {
+  /** Test name suffix; defaults to the row number */
+  name?: string;
+  /** `@smoke`, or a comma/space separated list such as `smoke, regression` */
+  tags?: string | string[];
+  /** `true` or a reason to skip the row */
+  skip?: boolean | string;
+}
+
+export type DataRow = DataRowMeta & object;
+
+/**
+ * Load a parameter table from a CSV, JSON or YAML file, resolving relative
+ * paths against `baseDir`. Unquoted CSV cells holding numbers, booleans,
+ * `null` or JSON are converted to those types; quoted cells stay strings.
+ */
+export function loadTable<T extends DataRow = DataRow>(
+  file: string,
+  baseDir = process.cwd()
+): T[] {
+  const filePath = path.resolve(baseDir, file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Data table not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  let rows: unknown;
+
+  switch (extension) {
+  case '.csv':
+    rows = parseCsv(content);
+    break;
+  case '.json':
+    rows = JSON.parse(content);
+    break;
+  case '.yaml':
+  case '.yml':
+    rows = YAML.parse(content);
+    break;
+  default:
+    throw new Error(`Unsupported data table format: ${extension}`);
+  }
+
+  // Allow `{ rows: [...] }` so files can carry comments or metadata
+  if (rows && !Array.isArray(rows) && typeof rows === 'object') {
+    rows = (rows as { rows?: unknown }).rows;
+  }
+  if (!Array.isArray(rows)) {
+    throw new Error(`${file} must contain an array of rows`);
+  }
+
+  return rows as T[];
+}
+
+/**
+ * Test title for a row: `{{column}}` placeholders are filled in, otherwise
+ * the row name (or number) is appended. A placeholder the row has no value
+ * for throws.
+ */
+export function rowTitle(title: string, row: DataRow, index: number): string {
+  if (/\{\{\s*[\w.]+\s*\}\}/.test(title)) {
+    return title.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+      const value = key
+        .split('.')
+        .reduce<unknown>(
+          (current, part) =>
+            current && typeof current === 'object'
+              ? (current as Record<string, unknown>)[part]
+              : undefined,
+          row
+        );
+      if (value === undefined) {
+        throw new Error(
+          `Row ${index + 1} has no value for {{${key}}} in "${title}"`
+        );
+      }
+      return typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+    });
+  }
+
+  return `${title} - ${row.name ?? `row ${index + 1}`}`;
+}
+
+export function rowTags(row: DataRow): string[] {
+  const tags = Array.isArray(row.tags)
+    ? row.tags
+    : String(row.tags ?? '').split(/[\s,]+/);
+
+  return tags
+    .filter(Boolean)
+    .map((tag) => (tag.startsWith('@') ? tag : `@${tag}`));
+}
+
+/** Skip reason of a row, or undefined when it should run */
+export function rowSkipReason(row: DataRow): string | undefined {
+  if (row.skip === undefined || row.skip === false || row.skip === '') {
+    return undefined;
+  }
+  return row.skip === true ? 'Skipped in data table' : String(row.skip);
+}
+
+/** Tags and skip annotation to pass as the details of a row's test */
+export function rowDetails(row: DataRow): {
+  tag: string[];
+  annotation: { type: string; description?: string }[];
+} {
+  const reason = rowSkipReason(row);
+  return {
+    tag: rowTags(row),
+    annotation: reason ? [{ type: 'skip', description: reason }] : [],
+  };
+}
+
+interface CsvCell {
+  text: string;
+  quoted: boolean;
+}
+
+function parseCsv(content: string): DataRow[] {
+  const records = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  const [header, ...lines] = records;
+  if (!header) return [];
+
+  return lines
+    .filter((cells) => cells.some((cell) => cell.text.trim() !== ''))
+    .map((cells) =>
+      Object.fromEntries(
+        header.map((column, i) => {
+          const cell = cells[i];
+          const value = cell?.quoted ? cell.text : coerceCell(cell?.text ?? '');
+          return [column.text.trim(), value];
+        })
+      )
+    );
+}
+
+function parseCsvRecords(content: string): CsvCell[][] {
+  const records: CsvCell[][] = [];
+  let record: CsvCell[] = [];
+  let cell = '';
+  let quoted = false;
+  // Whether the current cell was written in quotes, so it is not coerced
+  let wasQuoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === ',') {
+      record.push({ text: cell, quoted: wasQuoted });
+      cell = '';
+      wasQuoted = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push({ text: cell, quoted: wasQuoted });
+      records.push(record);
+      record = [];
+      cell = '';
+      wasQuoted = false;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || wasQuoted || record.length > 0) {
+    record.push({ text: cell, quoted: wasQuoted });
+    records.push(record);
+  }
+  return records;
+}
+
+function coerceCell(value: string): unknown {
+  const trimmed = value.trim();
+
+  if (trimmed === '') return '';
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  // Leading zeros stay strings so zip codes and IDs survive
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,361 @@
+import { TestInfo } from '@playwright/test';
+
+export interface GeneratedAddress {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex';
+
+export interface GeneratedCard {
+  brand: CardBrand;
+  number: string;
+  /** MM/YY, always in the future */
+  expiry: string;
+  cvv: string;
+}
+
+const FIRST_NAMES = [
+  'Ada',
+  'Alan',
+  'Amara',
+  'Carlos',
+  'Chen',
+  'Elena',
+  'Farah',
+  'Grace',
+  'Hiro',
+  'Ingrid',
+  'Jonas',
+  'Kofi',
+  'Lena',
+  'Mateo',
+  'Nadia',
+  'Omar',
+  'Priya',
+  'Quinn',
+  'Rosa',
+  'Sven',
+  'Tariq',
+  'Uma',
+  'Victor',
+  'Yuki',
+];
+
+const LAST_NAMES = [
+  'Andersen',
+  'Bauer',
+  'Castillo',
+  'Dubois',
+  'Eriksen',
+  'Fischer',
+  'García',
+  'Hoffmann',
+  'Ivanova',
+  'Jensen',
+  'Kowalski',
+  'Lindqvist',
+  'Moreau',
+  'Nakamura',
+  'Okafor',
+  'Patel',
+  'Rossi',
+  'Schmidt',
+  'Tanaka',
+  'Usman',
+  'Varga',
+  'Weber',
+  'Yilmaz',
+  'Zhang',
+];
+
+const STREETS = [
+  'Maple Avenue',
+  'Oak Street',
+  'Harbor Road',
+  'Mill Lane',
+  'Station Road',
+  'Park Place',
+  'River Drive',
+  'Church Street',
+  'Elm Court',
+  'Hill Crest',
+];
+
+// City, country and postal code format (see DataGenerator.pattern)
+const CITIES: [string, string, string][] = [
+  ['Springfield', 'US', '#####'],
+  ['Portland', 'US', '#####'],
+  ['Toronto', 'CA', 'A#A #A#'],
+  ['London', 'GB', 'AA# #AA'],
+  ['Berlin', 'DE', '#####'],
+  ['Lyon', 'FR', '#####'],
+  ['Amsterdam', 'NL', '#### AA'],
+  ['Melbourne', 'AU', '####'],
+];
+
+const LOREM = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod ' +
+  'tempor incididunt ut labore et dolore magna aliqua enim ad minim veniam ' +
+  'quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo ' +
+  'consequat duis aute irure in reprehenderit voluptate velit esse cillum ' +
+  'fugiat nulla pariatur excepteur sint occaecat cupidatat non proident'
+).split(' ');
+
+interface CardFormat {
+  prefixes: string[];
+  length: number;
+}
+
+const CARD_FORMATS: Record<CardBrand, CardFormat> = {
+  visa: { prefixes: ['4'], length: 16 },
+  mastercard: { prefixes: ['51', '52', '53', '54', '55'], length: 16 },
+  amex: { prefixes: ['34', '37'], length: 15 },
+};
+
+/**
+ * Seed of the run: TEST_SEED if set, otherwise a new one that is stored in
+ * TEST_SEED so workers started afterwards share it
+ */
+export function ensureTestSeed(): number {
+  if (!process.env.TEST_SEED) {
+    process.env.TEST_SEED = String(Math.floor(Math.random() * 2 ** 31));
+  }
+  return Number(process.env.TEST_SEED);
+}
+
+/** 32-bit FNV-1a hash, used to derive seeds and unique tokens */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Whether a card or account number passes the Luhn checksum */
+export function isValidLuhn(number: string): boolean {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < 2) return false;
+
+  return (
+    luhnCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1])
+  );
+}
+
+function luhnCheckDigit(partial: string): number {
+  let sum = 0;
+  for (let i = 0; i < partial.length; i++) {
+    let digit = Number(partial[partial.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Reproducible test data from a seeded PRNG (mulberry32). Unique values carry
+ * a token of the generator's scope, so workers and tests never collide.
+ */
+export class DataGenerator {
+  private state: number;
+  private counter = 0;
+  private readonly token: string;
+
+  constructor(readonly seed: number, scope = '') {
+    this.state = seed >>> 0;
+    this.token = hashString(`${seed}:${scope}`).toString(36).slice(0, 5);
+  }
+
+  /**
+   * Generator for one test, derived from the run seed (or `seed`) and the
+   * test's id
+   */
+  static forTest(testInfo: TestInfo, seed = ensureTestSeed()): DataGenerator {
+    const scope = `${testInfo.testId}:${testInfo.repeatEachIndex}`;
+    return new DataGenerator(hashString(`${seed}:${scope}`), scope);
+  }
+
+  /**
+   * Generator for code outside a test, derived from the run seed and worker
+   */
+  static forWorker(): DataGenerator {
+    const scope = `worker:${process.env.TEST_WORKER_INDEX || 'main'}`;
+    return new DataGenerator(
+      hashString(`${ensureTestSeed()}:${scope}`),
+      scope
+    );
+  }
+
+  /** Float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer between min and max, inclusive */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  string(
+    length: number,
+    chars = 'abcdefghijklmnopqrstuvwxyz0123456789'
+  ): string {
+    let value = '';
+    for (let i = 0; i < length; i++) value += this.pick(chars.split(''));
+    return value;
+  }
+
+  /** `#` becomes a digit and `A` an uppercase letter */
+  pattern(format: string): string {
+    return format.replace(/[#A]/g, (char) =>
+      char === '#'
+        ? String(this.int(0, 9))
+        : this.pick('ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''))
+    );
+  }
+
+  /** `prefix` plus a token unique to this worker or test */
+  unique(prefix = ''): string {
+    this.counter++;
+    return `${prefix}${this.token}${this.counter.toString(36)}`;
+  }
+
+  uuid(): string {
+    const hex = this.string(32, '0123456789abcdef').split('');
+    hex[12] = '4';
+    hex[16] = '89ab'[this.int(0, 3)];
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ]
+      .map((part) => part.join(''))
+      .join('-');
+  }
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  username(): string {
+    return this.unique(this.firstName().toLowerCase());
+  }
+
+  email(domain = 'example.com'): string {
+    const name = `${this.firstName()}.${this.lastName()}`
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[^a-z.]/g, '');
+    return `${this.unique(`${name}.`)}@${domain}`;
+  }
+
+  phone(format = '+1 ###-###-####'): string {
+    return this.pattern(format);
+  }
+
+  address(): GeneratedAddress {
+    const [city, country, postalCode] = this.pick(CITIES);
+    return {
+      street: `${this.int(1, 999)} ${this.pick(STREETS)}`,
+      city,
+      postalCode: this.pattern(postalCode),
+      country,
+    };
+  }
+
+  creditCard(brand: CardBrand = 'visa'): GeneratedCard {
+    const { prefixes, length } = CARD_FORMATS[brand];
+    const partial = this.pick(prefixes);
+    const body =
+      partial + this.pattern('#'.repeat(length - partial.length - 1));
+    const expiry = this.futureDate(5);
+
+    return {
+      brand,
+      number: body + luhnCheckDigit(body),
+      expiry: `${String(expiry.getMonth() + 1).padStart(2, '0')}/${String(
+        expiry.getFullYear()
+      ).slice(-2)}`,
+      cvv: this.pattern(brand === 'amex' ? '####' : '###'),
+    };
+  }
+
+  date(from: Date, to: Date): Date {
+    return new Date(this.int(from.getTime(), to.getTime()));
+  }
+
+  pastDate(years = 1, reference = new Date()): Date {
+    const from = new Date(reference);
+    from.setFullYear(from.getFullYear() - years);
+    return this.date(from, reference);
+  }
+
+  futureDate(years = 1, reference = new Date()): Date {
+    const to = new Date(reference);
+    to.setFullYear(to.getFullYear() + years);
+    return this.date(new Date(reference.getTime() + 86400000), to);
+  }
+
+  /** Birth date of someone between minAge and maxAge years old */
+  birthDate(minAge = 18, maxAge = 80, reference = new Date()): Date {
+    const from = new Date(reference);
+    from.setFullYear(from.getFullYear() - maxAge);
+    const to = new Date(reference);
+    to.setFullYear(to.getFullYear() - minAge);
+    return this.date(from, to);
+  }
+
+  words(count = 5): string[] {
+    return Array.from({ length: count }, () => this.pick(LOREM));
+  }
+
+  sentence(wordCount = this.int(6, 12)): string {
+    const text = this.words(wordCount).join(' ');
+    return `${text[0].toUpperCase()}${text.slice(1)}.`;
+  }
+
+  paragraph(sentences = this.int(3, 5)): string {
+    return Array.from({ length: sentences }, () => this.sentence()).join(' ');
+  }
+}
+
+/** Generator for the current worker, e.g. for TestDataManager and factories */
+export const random = DataGenerator.forWorker();
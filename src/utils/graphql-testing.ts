@@ -0,0 +1,319 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  DocumentNode,
+  GraphQLSchema,
+  OperationDefinitionNode,
+  buildSchema,
+  execute,
+  parse,
+  validate,
+} from 'graphql';
+import { ApiResponse } from './api-response';
+import { ApiTesting } from './api-testing';
+
+export interface GraphQLError {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLRequestOptions {
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  headers?: Record<string, string>;
+  /**
+   * Send an Apollo-style persisted query hash instead of the query text,
+   * registering the query when the server does not know the hash yet
+   */
+  persisted?: boolean;
+}
+
+export interface GraphQLResult<T = unknown> {
+  operationName?: string;
+  data: T | null;
+  errors: GraphQLError[];
+  response: ApiResponse;
+}
+
+/** What a GraphQL endpoint answers with */
+interface GraphQLResponseBody {
+  data?: unknown;
+  errors?: GraphQLError[];
+}
+
+export interface GraphQLErrorMatcher {
+  code?: string;
+  message?: string | RegExp;
+  /** Dotted response path, e.g. `user.orders.0.total` */
+  path?: string;
+}
+
+// SDL files are parsed once per worker
+const schemaCache = new Map<string, GraphQLSchema>();
+
+export class GraphQLTesting {
+  private schema?: GraphQLSchema;
+  private documents = new Map<string, DocumentNode>();
+
+  constructor(
+    private apiTesting: ApiTesting,
+    private options: { endpoint?: string; schemaPath?: string } = {}
+  ) {
+    if (options.schemaPath) {
+      this.schema = GraphQLTesting.loadSchema(options.schemaPath);
+    }
+  }
+
+  /**
+   * Build a schema from a local SDL file
+   */
+  static loadSchema(schemaPath: string): GraphQLSchema {
+    let schema = schemaCache.get(schemaPath);
+    if (!schema) {
+      schema = buildSchema(fs.readFileSync(schemaPath, 'utf-8'));
+      schemaCache.set(schemaPath, schema);
+    }
+    return schema;
+  }
+
+  /**
+   * SHA-256 hash identifying a query in the persisted query protocol
+   */
+  static hashQuery(query: string): string {
+    return crypto.createHash('sha256').update(query).digest('hex');
+  }
+
+  /**
+   * Run a query and return its data, failing on any `errors[]` entry
+   */
+  async query<T = unknown>(
+    query: string,
+    options?: GraphQLRequestOptions
+  ): Promise<T> {
+    return this.dataOrThrow(await this.execute<T>(query, options));
+  }
+
+  /**
+   * Run a mutation and return its data, failing on any `errors[]` entry
+   */
+  async mutate<T = unknown>(
+    mutation: string,
+    options?: GraphQLRequestOptions
+  ): Promise<T> {
+    return this.dataOrThrow(await this.execute<T>(mutation, options));
+  }
+
+  /**
+   * Run an operation and return data and errors without failing on errors,
+   * for tests that expect the server to reject the operation
+   */
+  async execute<T = unknown>(
+    document: string,
+    options: GraphQLRequestOptions = {}
+  ): Promise<GraphQLResult<T>> {
+    const parsed = this.parseDocument(document);
+    const operationName =
+      options.operationName || this.getOperationName(parsed);
+
+    if (this.schema) {
+      const problems = validate(this.schema, parsed);
+      if (problems.length > 0) {
+        throw new Error(
+          `GraphQL operation ${this.label(operationName)} is invalid ` +
+            `against the schema:\n${problems
+              .map((problem) => `  - ${problem.message}`)
+              .join('\n')}`
+        );
+      }
+    }
+
+    const payload: Record<string, unknown> = {
+      query: document,
+      variables: options.variables,
+      operationName,
+    };
+
+    let response: ApiResponse<GraphQLResponseBody | undefined>;
+    if (options.persisted) {
+      const extensions = {
+        persistedQuery: {
+          version: 1,
+          sha256Hash: GraphQLTesting.hashQuery(document),
+        },
+      };
+
+      // Try the hash alone first; a miss registers the full query
+      response = await this.post(
+        { ...payload, query: undefined, extensions },
+        options
+      );
+      if (this.isPersistedQueryMiss(response.body)) {
+        response = await this.post({ ...payload, extensions }, options);
+      }
+    } else {
+      response = await this.post(payload, options);
+    }
+
+    const body = response.body;
+    if (
+      !body ||
+      typeof body !== 'object' ||
+      !('data' in body || 'errors' in body)
+    ) {
+      throw new Error(
+        `GraphQL operation ${this.label(operationName)} got a non-GraphQL ` +
+          `response (${response.status}): ${JSON.stringify(body)}`
+      );
+    }
+
+    const result: GraphQLResult<T> = {
+      operationName,
+      data: (body.data ?? null) as T | null,
+      errors: body.errors || [],
+      response,
+    };
+
+    if (this.schema && result.data) {
+      await this.validateData(parsed, result.data, operationName, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fail with every error in the result
+   */
+  assertNoErrors(result: GraphQLResult): void {
+    if (result.errors.length === 0) return;
+
+    throw new Error(
+      `GraphQL operation ${this.label(result.operationName)} returned ${
+        result.errors.length
+      } error(s):\n${this.formatErrors(result.errors)}`
+    );
+  }
+
+  /**
+   * Find the error matching code, message and path, failing when none does
+   */
+  expectError(
+    result: GraphQLResult,
+    matcher: GraphQLErrorMatcher
+  ): GraphQLError {
+    const match = result.errors.find(
+      (error) =>
+        (matcher.code === undefined ||
+          error.extensions?.code === matcher.code) &&
+        (matcher.message === undefined ||
+          (typeof matcher.message === 'string'
+            ? error.message.includes(matcher.message)
+            : matcher.message.test(error.message))) &&
+        (matcher.path === undefined ||
+          (error.path || []).join('.') === matcher.path)
+    );
+
+    if (!match) {
+      throw new Error(
+        `No GraphQL error matching ${JSON.stringify({
+          ...matcher,
+          message: matcher.message?.toString(),
+        })}; got:\n${this.formatErrors(result.errors) || '  (no errors)'}`
+      );
+    }
+
+    return match;
+  }
+
+  private dataOrThrow<T>(result: GraphQLResult<T>): T {
+    this.assertNoErrors(result);
+    return result.data as T;
+  }
+
+  private post(
+    payload: Record<string, unknown>,
+    options: GraphQLRequestOptions
+  ): Promise<ApiResponse<GraphQLResponseBody | undefined>> {
+    return this.apiTesting.send<GraphQLResponseBody | undefined>(
+      'POST',
+      this.options.endpoint || '/graphql',
+      { data: payload, headers: options.headers }
+    );
+  }
+
+  /**
+   * Check the returned data has the shape and scalar types the schema
+   * promises by resolving the operation against it from the response.
+   * Union and interface selections need `__typename` to be checked.
+   */
+  private async validateData(
+    document: DocumentNode,
+    data: unknown,
+    operationName: string | undefined,
+    options: GraphQLRequestOptions
+  ): Promise<void> {
+    const result = await execute({
+      schema: this.schema as GraphQLSchema,
+      document,
+      rootValue: data,
+      operationName,
+      variableValues: options.variables,
+      // Response keys are aliases when the query used them
+      fieldResolver: (source, _args, _context, info) =>
+        source?.[info.path.key],
+      typeResolver: (value) => value?.__typename,
+    });
+
+    if (result.errors?.length) {
+      throw new Error(
+        `GraphQL response does not match the schema:\n${result.errors
+          .map(
+            (error) => `  - ${(error.path || []).join('.')}: ${error.message}`
+          )
+          .join('\n')}`
+      );
+    }
+  }
+
+  private parseDocument(document: string): DocumentNode {
+    let parsed = this.documents.get(document);
+    if (!parsed) {
+      parsed = parse(document);
+      this.documents.set(document, parsed);
+    }
+    return parsed;
+  }
+
+  private getOperationName(document: DocumentNode): string | undefined {
+    const operations = document.definitions.filter(
+      (definition): definition is OperationDefinitionNode =>
+        definition.kind === 'OperationDefinition'
+    );
+    return operations.length === 1 ? operations[0].name?.value : undefined;
+  }
+
+  private isPersistedQueryMiss(body?: GraphQLResponseBody): boolean {
+    return (body?.errors || []).some(
+      (error) =>
+        error.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND' ||
+        error.message === 'PersistedQueryNotFound'
+    );
+  }
+
+  private formatErrors(errors: GraphQLError[]): string {
+    return errors
+      .map((error) => {
+        const code = error.extensions?.code
+          ? `[${error.extensions.code}] `
+          : '';
+        const path = error.path ? `${error.path.join('.')}: ` : '';
+        return `  - ${code}${path}${error.message}`;
+      })
+      .join('\n');
+  }
+
+  private label(operationName?: string): string {
+    return operationName ? `"${operationName}"` : '(anonymous)';
+  }
+}
@@ -0,0 +1,597 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  APIRequestContext,
+  APIResponse,
+  BrowserContext,
+  Request,
+  Route,
+  TestInfo,
+} from '@playwright/test';
+
+export type NetworkMode = 'record' | 'replay' | 'live';
+
+export interface HarMatchOptions {
+  /** Only record and replay requests whose URL contains or matches this */
+  url?: string | RegExp;
+  /**
+   * Request headers that may differ from the recording; a trailing `*`
+   * matches by prefix
+   */
+  ignoreHeaders?: string[];
+  /** Query parameters left out when comparing URLs; `*` works as above */
+  ignoreQueryParams?: string[];
+  /** Compare request bodies as well as method, URL and headers */
+  matchBody?: boolean;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: never[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: never[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: 'base64';
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+type FetchOptions = NonNullable<Parameters<APIRequestContext['fetch']>[1]>;
+
+interface RequestSnapshot {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export const DEFAULT_HAR_MATCH: Required<Omit<HarMatchOptions, 'url'>> = {
+  ignoreHeaders: [
+    'accept-encoding',
+    'accept-language',
+    'authorization',
+    'cache-control',
+    'connection',
+    'content-length',
+    'cookie',
+    'date',
+    'host',
+    'if-modified-since',
+    'if-none-match',
+    'origin',
+    'pragma',
+    'referer',
+    'traceparent',
+    'tracestate',
+    'user-agent',
+    'x-correlation-id',
+    'x-mock-session',
+    'x-request-id',
+    'sec-*',
+  ],
+  ignoreQueryParams: ['_', 'cb', 'nonce', 'timestamp', 'utm_*'],
+  matchBody: true,
+};
+
+// Never written to HAR files that may be committed
+const REDACTED_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+const REDACTED_RESPONSE_HEADERS = ['set-cookie'];
+
+// Hop-by-hop and encoding headers that no longer apply to a decoded body
+const SKIPPED_REPLAY_HEADERS = [
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+];
+
+const TEXT_MIME = /^(text\/|application\/(.+\+)?(json|xml|javascript))/;
+
+/**
+ * Record network traffic of a test into a HAR file, or answer requests from
+ * that file instead of the network
+ */
+export class HarNetwork {
+  private entries: HarEntry[] = [];
+  private used = new Set<HarEntry>();
+  private pending = new Set<Promise<void>>();
+  private unmatched: string[] = [];
+  private contexts = new WeakSet<BrowserContext>();
+  private match: Required<Omit<HarMatchOptions, 'url'>> &
+    Pick<HarMatchOptions, 'url'>;
+
+  constructor(
+    readonly mode: NetworkMode,
+    readonly harPath: string,
+    options: HarMatchOptions = {},
+    private baseURL?: string
+  ) {
+    this.match = { ...DEFAULT_HAR_MATCH, ...options };
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(harPath)) {
+        throw new Error(
+          `No HAR recording at ${harPath}; run once with NETWORK_MODE=record`
+        );
+      }
+      this.entries = JSON.parse(fs.readFileSync(harPath, 'utf-8')).log.entries;
+    }
+  }
+
+  /**
+   * HAR file of a test: `<HAR_DIR>/<spec path>/<test title> [<project>].har`
+   */
+  static pathFor(testInfo: TestInfo): string {
+    const specPath = path
+      .relative(testInfo.project.testDir, testInfo.file)
+      .replace(/\.(spec|test)\.[jt]s$/, '');
+    const title = testInfo.titlePath
+      .slice(1)
+      .join(' › ')
+      .replace(/[^\w\- ›]+/g, '_');
+    const project = testInfo.project.name ? ` [${testInfo.project.name}]` : '';
+
+    return path.join(
+      process.env.HAR_DIR || 'hars',
+      specPath,
+      `${title}${project}.har`
+    );
+  }
+
+  /**
+   * Record or replay the browser traffic of a context; page-level route
+   * mocks still take precedence. The `context` fixture does this for every
+   * test that is not live; attaching a context twice has no effect.
+   */
+  async attachContext(context: BrowserContext): Promise<void> {
+    if (this.contexts.has(context)) return;
+    this.contexts.add(context);
+
+    if (this.mode === 'record') {
+      context.on('requestfinished', (request) => {
+        if (!this.isTracked(request.url())) return;
+
+        const capture = this.captureBrowserRequest(request).finally(() =>
+          this.pending.delete(capture)
+        );
+        this.pending.add(capture);
+      });
+    }
+
+    if (this.mode === 'replay') {
+      await context.route(
+        (url) => this.isTracked(url.toString()),
+        (route) => this.replayRoute(route)
+      );
+    }
+  }
+
+  /**
+   * Drop-in for `APIRequestContext.fetch` used by ApiTesting
+   */
+  async fetch(
+    request: APIRequestContext,
+    url: string,
+    options: FetchOptions
+  ): Promise<APIResponse> {
+    const absoluteUrl = new URL(
+      url,
+      this.baseURL || 'http://localhost:3000'
+    ).toString();
+
+    if (this.mode === 'live' || !this.isTracked(absoluteUrl)) {
+      return request.fetch(url, options);
+    }
+
+    const snapshot: RequestSnapshot = {
+      method: (options.method || 'GET').toUpperCase(),
+      url: absoluteUrl,
+      headers: this.lowerCaseKeys(options.headers || {}),
+      body: this.apiRequestBody(options),
+    };
+
+    if (this.mode === 'replay') {
+      const entry = this.findEntry(snapshot);
+      if (!entry) {
+        this.unmatched.push(`${snapshot.method} ${snapshot.url}`);
+        throw new Error(
+          `No recorded response for ${snapshot.method} ${snapshot.url} ` +
+            `in ${this.harPath}`
+        );
+      }
+      return new HarApiResponse(entry);
+    }
+
+    const started = Date.now();
+    const response = await request.fetch(url, options);
+    this.entries.push(
+      this.createEntry(snapshot, started, {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headersArray(),
+        body: await response.body(),
+      })
+    );
+    return response;
+  }
+
+  /**
+   * Write the recording, or fail the test if replay saw unknown requests
+   */
+  async finish(): Promise<void> {
+    await Promise.all(this.pending);
+
+    if (this.mode === 'record') {
+      fs.mkdirSync(path.dirname(this.harPath), { recursive: true });
+      fs.writeFileSync(
+        this.harPath,
+        JSON.stringify(
+          {
+            log: {
+              version: '1.2',
+              creator: { name: 'webapp-testing', version: '1.0.0' },
+              entries: this.entries.sort((a, b) =>
+                a.startedDateTime.localeCompare(b.startedDateTime)
+              ),
+            },
+          },
+          null,
+          2
+        )
+      );
+    }
+
+    if (this.mode === 'replay' && this.unmatched.length > 0) {
+      throw new Error(
+        `Requests not found in ${this.harPath}:\n${this.unmatched
+          .map((request) => `  ${request}`)
+          .join('\n')}\nRecord again with NETWORK_MODE=record`
+      );
+    }
+  }
+
+  getUnmatched(): string[] {
+    return [...this.unmatched];
+  }
+
+  private async captureBrowserRequest(request: Request): Promise<void> {
+    const response = await request.response();
+    if (!response) return;
+
+    const started = request.timing().startTime;
+    this.entries.push(
+      this.createEntry(
+        {
+          method: request.method(),
+          url: request.url(),
+          headers: await request.allHeaders(),
+          body: request.postData() ?? undefined,
+        },
+        started,
+        {
+          status: response.status(),
+          statusText: response.statusText(),
+          headers: await response.headersArray(),
+          // Redirects and some cached responses have no body
+          body: await response.body().catch(() => Buffer.alloc(0)),
+        }
+      )
+    );
+  }
+
+  private async replayRoute(route: Route): Promise<void> {
+    const request = route.request();
+    const snapshot: RequestSnapshot = {
+      method: request.method(),
+      url: request.url(),
+      headers: await request.allHeaders(),
+      body: request.postData() ?? undefined,
+    };
+
+    const entry = this.findEntry(snapshot);
+    if (!entry) {
+      this.unmatched.push(`${snapshot.method} ${snapshot.url}`);
+      await route.abort('internetdisconnected');
+      return;
+    }
+
+    await route.fulfill({
+      status: entry.response.status,
+      headers: Object.fromEntries(
+        entry.response.headers
+          .filter(
+            (header) =>
+              !SKIPPED_REPLAY_HEADERS.includes(header.name.toLowerCase()) &&
+              // A redacted cookie would only overwrite a real one
+              !REDACTED_RESPONSE_HEADERS.includes(header.name.toLowerCase())
+          )
+          .map((header) => [header.name, header.value])
+      ),
+      body: contentBuffer(entry),
+    });
+  }
+
+  /**
+   * First unused entry matching the request; once every match was used the
+   * last one keeps answering, e.g. for polling
+   */
+  private findEntry(snapshot: RequestSnapshot): HarEntry | undefined {
+    const matches = this.entries.filter((entry) =>
+      this.entryMatches(entry, snapshot)
+    );
+    const entry =
+      matches.find((match) => !this.used.has(match)) ||
+      matches[matches.length - 1];
+
+    if (entry) this.used.add(entry);
+    return entry;
+  }
+
+  private entryMatches(entry: HarEntry, snapshot: RequestSnapshot): boolean {
+    if (entry.request.method !== snapshot.method) return false;
+    if (
+      this.normalizeUrl(entry.request.url) !== this.normalizeUrl(snapshot.url)
+    ) {
+      return false;
+    }
+
+    const headersMatch = entry.request.headers.every(
+      (header) =>
+        this.isIgnored(header.name, this.match.ignoreHeaders) ||
+        REDACTED_HEADERS.includes(header.name.toLowerCase()) ||
+        snapshot.headers[header.name.toLowerCase()] === header.value
+    );
+    if (!headersMatch) return false;
+
+    return (
+      !this.match.matchBody ||
+      this.normalizeBody(entry.request.postData?.text) ===
+        this.normalizeBody(snapshot.body)
+    );
+  }
+
+  private createEntry(
+    snapshot: RequestSnapshot,
+    started: number,
+    response: {
+      status: number;
+      statusText: string;
+      headers: HarHeader[];
+      body: Buffer;
+    }
+  ): HarEntry {
+    const url = new URL(snapshot.url);
+    const mimeType =
+      response.headers.find(
+        (header) => header.name.toLowerCase() === 'content-type'
+      )?.value || 'application/octet-stream';
+    const isText = TEXT_MIME.test(mimeType);
+
+    return {
+      startedDateTime: new Date(started).toISOString(),
+      time: Date.now() - started,
+      request: {
+        method: snapshot.method,
+        url: snapshot.url,
+        httpVersion: 'HTTP/1.1',
+        headers: Object.entries(snapshot.headers).map(([name, value]) => ({
+          name: name.toLowerCase(),
+          value: REDACTED_HEADERS.includes(name.toLowerCase())
+            ? '[redacted]'
+            : value,
+        })),
+        queryString: [...url.searchParams].map(([name, value]) => ({
+          name,
+          value,
+        })),
+        cookies: [],
+        headersSize: -1,
+        bodySize: snapshot.body ? Buffer.byteLength(snapshot.body) : 0,
+        postData:
+          snapshot.body !== undefined
+            ? {
+              mimeType: snapshot.headers['content-type'] || '',
+              text: snapshot.body,
+            }
+            : undefined,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: response.headers.map((header) => ({
+          name: header.name,
+          value: REDACTED_RESPONSE_HEADERS.includes(header.name.toLowerCase())
+            ? '[redacted]'
+            : header.value,
+        })),
+        cookies: [],
+        content: {
+          size: response.body.length,
+          mimeType,
+          text: isText
+            ? response.body.toString('utf-8')
+            : response.body.toString('base64'),
+          encoding: isText ? undefined : 'base64',
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: response.body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: Date.now() - started, receive: 0 },
+    };
+  }
+
+  private apiRequestBody(options: FetchOptions): string | undefined {
+    if (options.form && !(options.form instanceof FormData)) {
+      return new URLSearchParams(
+        Object.entries(options.form).map(([key, value]) => [
+          key,
+          String(value),
+        ])
+      ).toString();
+    }
+    if (options.data === undefined) return undefined;
+    if (Buffer.isBuffer(options.data)) return options.data.toString('base64');
+    return typeof options.data === 'string'
+      ? options.data
+      : JSON.stringify(options.data);
+  }
+
+  private normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams]
+      .filter(([name]) => !this.isIgnored(name, this.match.ignoreQueryParams))
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    parsed.search = new URLSearchParams(params).toString();
+    parsed.hash = '';
+    return parsed.toString();
+  }
+
+  /**
+   * JSON bodies compare regardless of key order; multipart bodies are not
+   * compared since their boundaries change on every request
+   */
+  private normalizeBody(body?: string): string {
+    if (!body) return '';
+    if (/^-{2,}\S+\r?\n/.test(body)) return '';
+
+    try {
+      return JSON.stringify(sortKeys(JSON.parse(body)));
+    } catch {
+      return body;
+    }
+  }
+
+  private isIgnored(name: string, patterns: string[]): boolean {
+    const lowerName = name.toLowerCase();
+    return patterns.some((pattern) =>
+      pattern.endsWith('*')
+        ? lowerName.startsWith(pattern.slice(0, -1).toLowerCase())
+        : lowerName === pattern.toLowerCase()
+    );
+  }
+
+  private isTracked(url: string): boolean {
+    if (!/^https?:/.test(url)) return false;
+    if (!this.match.url) return true;
+
+    return typeof this.match.url === 'string'
+      ? url.includes(this.match.url)
+      : this.match.url.test(url);
+  }
+
+  private lowerCaseKeys(headers: Record<string, string>) {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    );
+  }
+}
+
+/**
+ * Recorded response handed to ApiTesting in replay mode
+ */
+class HarApiResponse implements APIResponse {
+  constructor(private entry: HarEntry) {}
+
+  async body(): Promise<Buffer> {
+    return contentBuffer(this.entry);
+  }
+
+  async dispose(): Promise<void> {
+    // Nothing to release
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
+
+  headers(): { [key: string]: string } {
+    const headers: Record<string, string> = {};
+    for (const header of this.entry.response.headers) {
+      const name = header.name.toLowerCase();
+      headers[name] = headers[name]
+        ? `${headers[name]}, ${header.value}`
+        : header.value;
+    }
+    return headers;
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return [...this.entry.response.headers];
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(await this.text());
+  }
+
+  ok(): boolean {
+    return this.status() >= 200 && this.status() <= 299;
+  }
+
+  status(): number {
+    return this.entry.response.status;
+  }
+
+  statusText(): string {
+    return this.entry.response.statusText;
+  }
+
+  async text(): Promise<string> {
+    return contentBuffer(this.entry).toString('utf-8');
+  }
+
+  url(): string {
+    return this.entry.request.url;
+  }
+}
+
+function contentBuffer(entry: HarEntry): Buffer {
+  const { text, encoding } = entry.response.content;
+  return Buffer.from(text || '', encoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
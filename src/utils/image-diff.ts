@@ -0,0 +1,356 @@
+// Pixel comparison of two screenshots with anti-aliasing tolerance, ignore
+// regions and a perceptual (SSIM) score
+
+import { RawImage, createImage } from './png';
+
+/** Rectangle in screenshot pixels */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageDiffOptions {
+  /** Per-pixel color distance tolerated, 0 (exact) to 1 (anything) */
+  threshold?: number;
+  /** Count anti-aliased edge pixels as differences too */
+  includeAntialiasing?: boolean;
+  /** Areas left out of the comparison, e.g. ads or timestamps */
+  ignoreRegions?: Region[];
+}
+
+export interface ImageDiffResult {
+  diffPixels: number;
+  /** Pixels skipped as anti-aliasing */
+  antialiasedPixels: number;
+  totalPixels: number;
+  /** diffPixels / totalPixels */
+  diffRatio: number;
+  /** Structural similarity, 1 for identical images */
+  ssim: number;
+  sizeMismatch: boolean;
+  /** Faded baseline with differences red and anti-aliasing yellow */
+  diff: RawImage;
+}
+
+const DIFF_COLOR = [255, 0, 0];
+const ANTIALIAS_COLOR = [255, 255, 0];
+const IGNORED_COLOR = [0, 120, 255];
+
+// Largest possible YIQ distance between two colors
+const MAX_DELTA = 35215;
+
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * Compare two RGBA images. Images of different sizes are compared on the
+ * larger canvas, so the uncovered area counts as different.
+ */
+export function compareImages(
+  baseline: RawImage,
+  actual: RawImage,
+  options: ImageDiffOptions = {}
+): ImageDiffResult {
+  const width = Math.max(baseline.width, actual.width);
+  const height = Math.max(baseline.height, actual.height);
+  const sizeMismatch =
+    baseline.width !== actual.width || baseline.height !== actual.height;
+  const expected = resize(baseline, width, height);
+  const received = resize(actual, width, height);
+
+  const ignored = new Uint8Array(width * height);
+  for (const region of options.ignoreRegions || []) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        ignored[y * width + x] = 1;
+        // Identical pixels keep ignored areas out of the SSIM score as well
+        const i = (y * width + x) * 4;
+        expected.data.copy(received.data, i, i, i + 4);
+      }
+    }
+  }
+
+  const maxDelta = MAX_DELTA * (options.threshold ?? 0.1) ** 2;
+  const diff = createImage(width, height);
+  let diffPixels = 0;
+  let antialiasedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = y * width + x;
+      const i = pos * 4;
+
+      if (ignored[pos]) {
+        setPixel(diff, i, blend(expected, i, IGNORED_COLOR, 0.3));
+        continue;
+      }
+
+      const delta = colorDelta(expected.data, received.data, i, i);
+      if (Math.abs(delta) <= maxDelta) {
+        const gray = fadedGray(expected.data, i);
+        setPixel(diff, i, [gray, gray, gray]);
+      } else if (
+        !options.includeAntialiasing &&
+        (antialiased(expected, x, y, received) ||
+          antialiased(received, x, y, expected))
+      ) {
+        antialiasedPixels++;
+        setPixel(diff, i, ANTIALIAS_COLOR);
+      } else {
+        diffPixels++;
+        setPixel(diff, i, DIFF_COLOR);
+      }
+    }
+  }
+
+  const totalPixels = width * height;
+  return {
+    diffPixels,
+    antialiasedPixels,
+    totalPixels,
+    diffRatio: totalPixels > 0 ? diffPixels / totalPixels : 0,
+    ssim: ssim(expected, received),
+    sizeMismatch,
+    diff,
+  };
+}
+
+/**
+ * Mean structural similarity of the two images' luma over sliding windows
+ */
+export function ssim(a: RawImage, b: RawImage): number {
+  const lumaA = luma(a);
+  const lumaB = luma(b);
+  const size = Math.min(SSIM_WINDOW, a.width, a.height);
+  if (size === 0) return 1;
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + size <= a.height; y += SSIM_STEP) {
+    for (let x = 0; x + size <= a.width; x += SSIM_STEP) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let wy = y; wy < y + size; wy++) {
+        for (let wx = x; wx < x + size; wx++) {
+          const pa = lumaA[wy * a.width + wx];
+          const pb = lumaB[wy * a.width + wx];
+          sumA += pa;
+          sumB += pb;
+          sumAA += pa * pa;
+          sumBB += pb * pb;
+          sumAB += pa * pb;
+        }
+      }
+
+      const n = size * size;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA ** 2 + meanB ** 2 + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+}
+
+// Copy onto a transparent canvas of the given size
+function resize(image: RawImage, width: number, height: number): RawImage {
+  const out = createImage(width, height);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(
+      out.data,
+      y * width * 4,
+      y * image.width * 4,
+      (y + 1) * image.width * 4
+    );
+  }
+  return out;
+}
+
+function setPixel(image: RawImage, i: number, rgb: number[]): void {
+  image.data[i] = rgb[0];
+  image.data[i + 1] = rgb[1];
+  image.data[i + 2] = rgb[2];
+  image.data[i + 3] = 255;
+}
+
+function blend(
+  image: RawImage,
+  i: number,
+  rgb: number[],
+  opacity: number
+): number[] {
+  const gray = fadedGray(image.data, i);
+  return rgb.map((value) => Math.round(gray + (value - gray) * opacity));
+}
+
+// Baseline pixel as light gray, so differences stand out in the diff image
+function fadedGray(data: Buffer, i: number): number {
+  const alpha = data[i + 3] / 255;
+  const y = rgb2y(
+    blendWhite(data[i], alpha),
+    blendWhite(data[i + 1], alpha),
+    blendWhite(data[i + 2], alpha)
+  );
+  return Math.round(255 + (y - 255) * 0.1);
+}
+
+function luma(image: RawImage): Float64Array {
+  const values = new Float64Array(image.width * image.height);
+  for (let p = 0; p < values.length; p++) {
+    const i = p * 4;
+    const alpha = image.data[i + 3] / 255;
+    values[p] = rgb2y(
+      blendWhite(image.data[i], alpha),
+      blendWhite(image.data[i + 1], alpha),
+      blendWhite(image.data[i + 2], alpha)
+    );
+  }
+  return values;
+}
+
+// Squared YIQ distance between two pixels; negative when the second is darker
+function colorDelta(
+  a: Buffer,
+  b: Buffer,
+  i: number,
+  j: number,
+  brightnessOnly = false
+): number {
+  if (
+    a[i] === b[j] &&
+    a[i + 1] === b[j + 1] &&
+    a[i + 2] === b[j + 2] &&
+    a[i + 3] === b[j + 3]
+  ) {
+    return 0;
+  }
+
+  const alphaA = a[i + 3] / 255;
+  const alphaB = b[j + 3] / 255;
+  const r1 = blendWhite(a[i], alphaA);
+  const g1 = blendWhite(a[i + 1], alphaA);
+  const b1 = blendWhite(a[i + 2], alphaA);
+  const r2 = blendWhite(b[j], alphaB);
+  const g2 = blendWhite(b[j + 1], alphaB);
+  const b2 = blendWhite(b[j + 2], alphaB);
+
+  const y = rgb2y(r1, g1, b1) - rgb2y(r2, g2, b2);
+  if (brightnessOnly) return y;
+
+  const iq = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+  return y > 0 ? -delta : delta;
+}
+
+/**
+ * Whether a pixel looks like anti-aliasing: it sits between a darkest and a
+ * brightest neighbour, and one of those lies in a flat area in both images
+ */
+function antialiased(
+  image: RawImage,
+  x: number,
+  y: number,
+  other: RawImage
+): boolean {
+  const x0 = Math.max(x - 1, 0);
+  const y0 = Math.max(y - 1, 0);
+  const x1 = Math.min(x + 1, image.width - 1);
+  const y1 = Math.min(y + 1, image.height - 1);
+  const i = (y * image.width + x) * 4;
+  let zeroes = x === x0 || x === x1 || y === y0 || y === y1 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0;
+  let minY = 0;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (let ny = y0; ny <= y1; ny++) {
+    for (let nx = x0; nx <= x1; nx++) {
+      if (nx === x && ny === y) continue;
+
+      const delta = colorDelta(
+        image.data,
+        image.data,
+        i,
+        (ny * image.width + nx) * 4,
+        true
+      );
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta;
+        minX = nx;
+        minY = ny;
+      } else if (delta > max) {
+        max = delta;
+        maxX = nx;
+        maxY = ny;
+      }
+    }
+  }
+
+  if (min === 0 || max === 0) return false;
+
+  return (
+    (hasManySiblings(image, minX, minY) &&
+      hasManySiblings(other, minX, minY)) ||
+    (hasManySiblings(image, maxX, maxY) && hasManySiblings(other, maxX, maxY))
+  );
+}
+
+// More than two identical neighbours means the pixel is in a flat area
+function hasManySiblings(image: RawImage, x: number, y: number): boolean {
+  const x0 = Math.max(x - 1, 0);
+  const y0 = Math.max(y - 1, 0);
+  const x1 = Math.min(x + 1, image.width - 1);
+  const y1 = Math.min(y + 1, image.height - 1);
+  const i = (y * image.width + x) * 4;
+  let zeroes = x === x0 || x === x1 || y === y0 || y === y1 ? 1 : 0;
+
+  for (let ny = y0; ny <= y1; ny++) {
+    for (let nx = x0; nx <= x1; nx++) {
+      if (nx === x && ny === y) continue;
+      const j = (ny * image.width + nx) * 4;
+      if (image.data.readUInt32BE(i) === image.data.readUInt32BE(j)) {
+        zeroes++;
+        if (zeroes > 2) return true;
+      }
+    }
+  }
+  return false;
+}
+
+function blendWhite(value: number, alpha: number): number {
+  return 255 + (value - 255) * alpha;
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
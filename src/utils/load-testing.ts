@@ -0,0 +1,344 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface LoadTestOptions {
+  /** Closed model: number of virtual users sending back-to-back requests */
+  concurrency?: number;
+  /** Open model: target requests per second regardless of response times */
+  rps?: number;
+  /** Linear ramp from zero to the target load */
+  rampUpMs?: number;
+  /** Steady-state duration at the target load */
+  durationMs: number;
+  /** Open model only: requests above this many in flight are dropped */
+  maxInFlight?: number;
+  /** e.g. `['p95 < 300ms', 'errors < 1%', 'throughput > 50']` */
+  thresholds?: string[];
+  /** Write the result as JSON to this path */
+  exportPath?: string;
+}
+
+export interface LatencyStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface PhaseStats {
+  requests: number;
+  errors: number;
+  /** Percentage of requests that failed or returned 4xx/5xx */
+  errorRate: number;
+  /** Completed requests per second */
+  throughput: number;
+  durationMs: number;
+  latency: LatencyStats;
+  statusCodes: Record<string, number>;
+}
+
+export interface ThresholdResult {
+  threshold: string;
+  actual: number;
+  passed: boolean;
+}
+
+export interface LoadTestResult {
+  name: string;
+  startedAt: string;
+  mode: 'concurrency' | 'rps';
+  target: number;
+  dropped: number;
+  phases: { rampUp: PhaseStats; steady: PhaseStats };
+  overall: PhaseStats;
+  thresholds: ThresholdResult[];
+  passed: boolean;
+}
+
+export interface LoadSample {
+  startedAt: number;
+  latency: number;
+  status: number | 'error';
+}
+
+// e.g. `p95 < 300ms`, `errors < 1%`, `throughput >= 50`
+const THRESHOLD_PATTERN =
+  /^(p50|p90|p95|p99|min|max|mean|avg|errors|error_rate|throughput|rps)\s*(<=|<|>=|>)\s*([\d.]+)\s*(ms|s|%)?$/i;
+
+const COMPARE: Record<string, (actual: number, limit: number) => boolean> = {
+  '<': (actual, limit) => actual < limit,
+  '<=': (actual, limit) => actual <= limit,
+  '>': (actual, limit) => actual > limit,
+  '>=': (actual, limit) => actual >= limit,
+};
+
+export interface Threshold {
+  evaluate: (stats: PhaseStats) => ThresholdResult;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Parse a threshold such as `p95 < 300ms`, throwing on anything unknown
+ */
+export function parseThreshold(threshold: string): Threshold {
+  const match = threshold.trim().match(THRESHOLD_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid load test threshold: "${threshold}"`);
+  }
+
+  const [, metric, operator, rawValue, unit] = match;
+  const limit = Number(rawValue) * (unit?.toLowerCase() === 's' ? 1000 : 1);
+
+  const key = metric.toLowerCase();
+  const read = (stats: PhaseStats): number => {
+    if (key === 'errors' || key === 'error_rate') return stats.errorRate;
+    if (key === 'throughput' || key === 'rps') return stats.throughput;
+    if (key === 'avg') return stats.latency.mean;
+    return stats.latency[key as keyof LatencyStats];
+  };
+
+  return {
+    evaluate: (stats) => {
+      const actual = read(stats);
+      return { threshold, actual, passed: COMPARE[operator](actual, limit) };
+    },
+  };
+}
+
+/**
+ * Aggregate samples taken over `durationMs` into latency and error stats
+ */
+export function summarizeSamples(
+  samples: LoadSample[],
+  durationMs: number
+): PhaseStats {
+  const latencies = samples.map((s) => s.latency).sort((a, b) => a - b);
+  const errors = samples.filter(
+    (s) => s.status === 'error' || s.status >= 400
+  ).length;
+
+  const statusCodes: Record<string, number> = {};
+  samples.forEach((s) => {
+    statusCodes[String(s.status)] = (statusCodes[String(s.status)] || 0) + 1;
+  });
+
+  return {
+    requests: samples.length,
+    errors,
+    errorRate: samples.length > 0 ? (errors / samples.length) * 100 : 0,
+    throughput: durationMs > 0 ? samples.length / (durationMs / 1000) : 0,
+    durationMs,
+    latency: {
+      min: latencies[0] || 0,
+      max: latencies[latencies.length - 1] || 0,
+      mean:
+        latencies.length > 0
+          ? latencies.reduce((sum, l) => sum + l, 0) / latencies.length
+          : 0,
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+    },
+    statusCodes,
+  };
+}
+
+export class LoadTester {
+  constructor(
+    private name: string,
+    private sendRequest: () => Promise<{ status: number }>
+  ) {}
+
+  /**
+   * Run ramp-up and steady-state phases and evaluate thresholds
+   */
+  async run(options: LoadTestOptions): Promise<LoadTestResult> {
+    if (!options.concurrency === !options.rps) {
+      throw new Error('Load test needs exactly one of concurrency or rps');
+    }
+
+    // Fail fast on typos before spending minutes generating load
+    const thresholds = (options.thresholds || []).map((threshold) =>
+      parseThreshold(threshold)
+    );
+
+    const rampUpMs = options.rampUpMs || 0;
+    const startedAt = new Date();
+    const start = performance.now();
+    const samples: LoadSample[] = [];
+    let dropped = 0;
+
+    if (options.concurrency) {
+      await this.runClosedModel(
+        options.concurrency,
+        rampUpMs,
+        options.durationMs,
+        start,
+        samples
+      );
+    } else {
+      dropped = await this.runOpenModel(
+        options.rps as number,
+        rampUpMs,
+        options.durationMs,
+        options.maxInFlight || 1000,
+        start,
+        samples
+      );
+    }
+
+    const rampEnd = start + rampUpMs;
+    const steady = summarizeSamples(
+      samples.filter((s) => s.startedAt >= rampEnd),
+      options.durationMs
+    );
+    const thresholdResults = thresholds.map((threshold) =>
+      // Judge the steady state, where the target load actually ran
+      threshold.evaluate(steady)
+    );
+
+    const result: LoadTestResult = {
+      name: this.name,
+      startedAt: startedAt.toISOString(),
+      mode: options.concurrency ? 'concurrency' : 'rps',
+      target: (options.concurrency || options.rps) as number,
+      dropped,
+      phases: {
+        rampUp: summarizeSamples(
+          samples.filter((s) => s.startedAt < rampEnd),
+          rampUpMs
+        ),
+        steady,
+      },
+      overall: summarizeSamples(samples, rampUpMs + options.durationMs),
+      thresholds: thresholdResults,
+      passed: thresholdResults.every((t) => t.passed),
+    };
+
+    if (options.exportPath) {
+      LoadTester.exportResult(result, options.exportPath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Write a result as JSON, e.g. for trend tracking across runs
+   */
+  static exportResult(result: LoadTestResult, filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(result, null, 2));
+  }
+
+  /**
+   * Throw with every failed threshold
+   */
+  static assertThresholds(
+    result: Pick<LoadTestResult, 'name' | 'thresholds'>,
+    kind = 'Load test'
+  ): void {
+    const failed = result.thresholds.filter((t) => !t.passed);
+    if (failed.length === 0) return;
+
+    throw new Error(
+      `${kind} "${result.name}" failed thresholds:\n${failed
+        .map((t) => `  ${t.threshold} (actual: ${t.actual.toFixed(2)})`)
+        .join('\n')}`
+    );
+  }
+
+  private async runClosedModel(
+    concurrency: number,
+    rampUpMs: number,
+    durationMs: number,
+    start: number,
+    samples: LoadSample[]
+  ): Promise<void> {
+    const end = start + rampUpMs + durationMs;
+
+    const virtualUser = async (index: number) => {
+      // Users join evenly spread over the ramp-up
+      await this.sleep((rampUpMs * index) / concurrency);
+
+      while (performance.now() < end) {
+        await this.record(samples);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: concurrency }, (_, index) => virtualUser(index))
+    );
+  }
+
+  private async runOpenModel(
+    rps: number,
+    rampUpMs: number,
+    durationMs: number,
+    maxInFlight: number,
+    start: number,
+    samples: LoadSample[]
+  ): Promise<number> {
+    const totalMs = rampUpMs + durationMs;
+    const inFlight = new Set<Promise<void>>();
+    let scheduled = 0;
+    let dropped = 0;
+
+    // Requests due by elapsed time t with a linear ramp to the target rate
+    const dueBy = (t: number) =>
+      t < rampUpMs
+        ? (rps * t * t) / (2 * rampUpMs * 1000)
+        : (rps * rampUpMs) / 2000 + (rps * (t - rampUpMs)) / 1000;
+
+    for (;;) {
+      const elapsed = performance.now() - start;
+      if (elapsed >= totalMs) break;
+
+      const due = Math.floor(dueBy(elapsed));
+      for (; scheduled < due; scheduled++) {
+        if (inFlight.size >= maxInFlight) {
+          dropped++;
+          continue;
+        }
+
+        const pending = this.record(samples).finally(() =>
+          inFlight.delete(pending)
+        );
+        inFlight.add(pending);
+      }
+
+      await this.sleep(5);
+    }
+
+    await Promise.all(inFlight);
+    return dropped;
+  }
+
+  private async record(samples: LoadSample[]): Promise<void> {
+    const startedAt = performance.now();
+    let status: LoadSample['status'];
+
+    try {
+      status = (await this.sendRequest()).status;
+    } catch {
+      status = 'error';
+    }
+
+    samples.push({ startedAt, latency: performance.now() - startedAt, status });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
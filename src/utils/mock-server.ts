@@ -0,0 +1,523 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import YAML from 'yaml';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** JSON or text body; strings may contain `{{params.id}}` style templates */
+  body?: unknown;
+  /** Body read from a file next to the route definitions */
+  bodyFile?: string;
+  contentType?: string;
+  /** Fixed delay or a random delay in a range */
+  latency?: number | { min: number; max: number };
+}
+
+export interface MockRoute extends MockResponse {
+  method?: string;
+  /** Path with `:param` segments and `*` wildcards, e.g. `/api/users/:id` */
+  path: string;
+  /** Query parameters the request must carry */
+  query?: Record<string, string>;
+  /** Headers the request must carry; `*` only requires the header */
+  requestHeaders?: Record<string, string>;
+  /** Fields the JSON or form request body must contain */
+  requestBody?: Record<string, unknown>;
+  /**
+   * Responses returned one after another on each call; the last one repeats
+   * unless `loop` is set
+   */
+  sequence?: MockResponse[];
+  loop?: boolean;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  status: number;
+  route?: string;
+  timestamp: string;
+}
+
+export interface MockServerOptions {
+  /**
+   * Path prefix that is optional on requests, so `/api/users` and `/users`
+   * both match a `/users` route
+   */
+  prefix?: string;
+}
+
+interface CompiledRoute {
+  route: MockRoute;
+  baseDir: string;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+interface TemplateContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+  /** Number of times this route was called, starting at 1 */
+  count: number;
+}
+
+// Control endpoints under this prefix are never matched against routes
+const ADMIN_PREFIX = '/__mock';
+
+// Body files that are rendered as templates
+const TEXT_FILE_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.csv': 'text/csv',
+};
+
+/**
+ * Small HTTP server answering from JSON/YAML route definitions so suites
+ * can run without the real backend
+ */
+export class MockServer {
+  private routes: CompiledRoute[] = [];
+  private counters = new Map<string, number>();
+  private requests: MockRequestRecord[] = [];
+  private server?: http.Server;
+
+  constructor(
+    routes: MockRoute[] = [],
+    private options: MockServerOptions = {}
+  ) {
+    routes.forEach((route) => this.addRoute(route));
+  }
+
+  /**
+   * Load every `.json`, `.yaml` and `.yml` route file in a directory, or a
+   * single file
+   */
+  static fromFiles(
+    location: string,
+    options?: MockServerOptions
+  ): MockServer {
+    const files = fs.statSync(location).isDirectory()
+      ? fs
+        .readdirSync(location)
+        .filter((file) => /\.(json|ya?ml)$/.test(file))
+        .sort()
+        .map((file) => path.join(location, file))
+      : [location];
+
+    const server = new MockServer([], options);
+    for (const file of files) {
+      const content = fs.readFileSync(file, 'utf-8');
+      const parsed = file.endsWith('.json')
+        ? JSON.parse(content)
+        : YAML.parse(content);
+      const routes: MockRoute[] = Array.isArray(parsed)
+        ? parsed
+        : parsed?.routes || [];
+
+      routes.forEach((route) => server.addRoute(route, path.dirname(file)));
+    }
+
+    return server;
+  }
+
+  addRoute(route: MockRoute, baseDir = process.cwd()): void {
+    if (!route.path) {
+      throw new Error(`Mock route without a path: ${JSON.stringify(route)}`);
+    }
+
+    const paramNames: string[] = [];
+    const source = route.path
+      .split('/')
+      .map((segment) => {
+        if (segment === '*') return '.*';
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.push({
+      route,
+      baseDir,
+      pattern: new RegExp(`^${source}/?$`),
+      paramNames,
+    });
+  }
+
+  /**
+   * Start listening and return the server's base URL
+   */
+  async start(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: String(error) }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(port, () => resolve());
+    });
+
+    const address = this.server.address() as { port: number };
+    return `http://localhost:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  /**
+   * Restart every sequence and clear the request log
+   */
+  reset(): void {
+    this.counters.clear();
+    this.requests = [];
+  }
+
+  getRequests(): MockRequestRecord[] {
+    return [...this.requests];
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const query = Object.fromEntries(url.searchParams);
+    const pathname = this.stripPrefix(url.pathname);
+
+    // Let pages served from another origin call the mock
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+    if (url.pathname.startsWith(ADMIN_PREFIX)) {
+      this.handleAdmin(url.pathname, res);
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const match = this.findRoute(req, pathname, query, body);
+
+    if (!match) {
+      if (method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Methods':
+            req.headers['access-control-request-method'] || '*',
+          'Access-Control-Allow-Headers':
+            req.headers['access-control-request-headers'] || '*',
+        });
+        res.end();
+        return;
+      }
+
+      this.log(method, url.pathname, query, 404);
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          error: 'No mock route matches this request',
+          method,
+          path: url.pathname,
+        })
+      );
+      return;
+    }
+
+    const { compiled, params } = match;
+    const key = this.sequenceKey(compiled, req);
+    const count = (this.counters.get(key) || 0) + 1;
+    this.counters.set(key, count);
+
+    const response = this.pickResponse(compiled.route, count);
+    const context: TemplateContext = {
+      params,
+      query,
+      headers: req.headers,
+      body,
+      count,
+    };
+
+    await this.delay(response.latency);
+
+    const status = response.status ?? 200;
+    const rendered = this.renderBody(response, compiled.baseDir, context);
+
+    this.log(method, url.pathname, query, status, compiled.route.path);
+    res.writeHead(status, {
+      'Content-Type': rendered.contentType,
+      ...response.headers,
+    });
+    res.end(method === 'HEAD' ? undefined : rendered.body);
+  }
+
+  private stripPrefix(pathname: string): string {
+    const prefix = this.options.prefix?.replace(/\/$/, '');
+    if (!prefix) return pathname;
+
+    if (pathname === prefix) return '/';
+    return pathname.startsWith(`${prefix}/`)
+      ? pathname.slice(prefix.length)
+      : pathname;
+  }
+
+  private handleAdmin(pathname: string, res: http.ServerResponse): void {
+    if (pathname === `${ADMIN_PREFIX}/reset`) {
+      this.reset();
+      res.writeHead(204);
+      res.end();
+    } else if (pathname === `${ADMIN_PREFIX}/requests`) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.requests));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  }
+
+  private findRoute(
+    req: http.IncomingMessage,
+    pathname: string,
+    query: Record<string, string>,
+    body: unknown
+  ): { compiled: CompiledRoute; params: Record<string, string> } | null {
+    const method = (req.method || 'GET').toUpperCase();
+
+    for (const compiled of this.routes) {
+      const routeMethod = (compiled.route.method || 'GET').toUpperCase();
+      const methodMatches =
+        routeMethod === '*' ||
+        routeMethod === method ||
+        (method === 'HEAD' && routeMethod === 'GET');
+      if (!methodMatches) continue;
+
+      const match = compiled.pattern.exec(pathname);
+      if (!match) continue;
+
+      const queryMatches = Object.entries(compiled.route.query || {}).every(
+        ([name, value]) => query[name] === String(value)
+      );
+      if (!queryMatches) continue;
+
+      const headersMatch = Object.entries(
+        compiled.route.requestHeaders || {}
+      ).every(([name, value]) => {
+        const actual = req.headers[name.toLowerCase()];
+        return value === '*' ? actual !== undefined : actual === value;
+      });
+      if (!headersMatch) continue;
+
+      if (
+        compiled.route.requestBody &&
+        !this.containsFields(body, compiled.route.requestBody)
+      ) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      compiled.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+      return { compiled, params };
+    }
+
+    return null;
+  }
+
+  private containsFields(
+    actual: unknown,
+    expected: Record<string, unknown>
+  ): boolean {
+    if (!actual || typeof actual !== 'object') return false;
+
+    return Object.entries(expected).every(([key, value]) => {
+      const field = (actual as Record<string, unknown>)[key];
+      return value && typeof value === 'object'
+        ? this.containsFields(field, value as Record<string, unknown>)
+        : field === value;
+    });
+  }
+
+  /**
+   * Sequences advance per `X-Mock-Session` header so parallel workers can
+   * each walk their own sequence
+   */
+  private sequenceKey(
+    compiled: CompiledRoute,
+    req: http.IncomingMessage
+  ): string {
+    const session = req.headers['x-mock-session'] || '';
+    return `${this.routes.indexOf(compiled)}:${session}`;
+  }
+
+  private pickResponse(route: MockRoute, count: number): MockResponse {
+    if (!route.sequence?.length) return route;
+
+    const index = route.loop
+      ? (count - 1) % route.sequence.length
+      : Math.min(count, route.sequence.length) - 1;
+
+    // Steps inherit anything they do not override from the route
+    return { ...route, ...route.sequence[index] };
+  }
+
+  private renderBody(
+    response: MockResponse,
+    baseDir: string,
+    context: TemplateContext
+  ): { body: string | Buffer; contentType: string } {
+    if (response.bodyFile) {
+      const file = path.resolve(baseDir, response.bodyFile);
+      const textType = TEXT_FILE_TYPES[path.extname(file).toLowerCase()];
+      const raw = fs.readFileSync(file);
+
+      return {
+        body: textType ? this.renderString(raw.toString(), context) : raw,
+        contentType:
+          response.contentType || textType || 'application/octet-stream',
+      };
+    }
+
+    if (response.body === undefined) {
+      return { body: '', contentType: response.contentType || 'text/plain' };
+    }
+
+    const rendered = this.renderValue(response.body, context);
+    return typeof rendered === 'string' && response.contentType
+      ? { body: rendered, contentType: response.contentType }
+      : {
+        body: JSON.stringify(rendered),
+        contentType: response.contentType || 'application/json',
+      };
+  }
+
+  /**
+   * Replace `{{...}}` templates in every string of a JSON value. A string
+   * that is a single template keeps the type of the value it refers to.
+   */
+  private renderValue(value: unknown, context: TemplateContext): unknown {
+    if (typeof value === 'string') {
+      const whole = value.match(/^{{\s*([^}]+?)\s*}}$/);
+      return whole
+        ? this.resolve(whole[1], context)
+        : this.renderString(value, context);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.renderValue(item, context));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.renderValue(item, context),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private renderString(value: string, context: TemplateContext): string {
+    return value.replace(/{{\s*([^}]+?)\s*}}/g, (_, expression) => {
+      const resolved = this.resolve(expression, context);
+      return typeof resolved === 'object'
+        ? JSON.stringify(resolved)
+        : String(resolved ?? '');
+    });
+  }
+
+  private resolve(expression: string, context: TemplateContext): unknown {
+    if (expression === 'now') return new Date().toISOString();
+    if (expression === 'uuid') return crypto.randomUUID();
+    if (expression === 'count') return context.count;
+
+    return expression
+      .split('.')
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        context
+      );
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) return undefined;
+
+    if (req.headers['content-type']?.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    if (req.headers['content-type']?.includes('x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(text));
+    }
+    return text;
+  }
+
+  private async delay(latency: MockResponse['latency']): Promise<void> {
+    if (!latency) return;
+
+    const ms =
+      typeof latency === 'number'
+        ? latency
+        : latency.min + Math.random() * (latency.max - latency.min);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private log(
+    method: string,
+    pathname: string,
+    query: Record<string, string>,
+    status: number,
+    route?: string
+  ): void {
+    this.requests.push({
+      method,
+      path: pathname,
+      query,
+      status,
+      route,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+let runningServer: MockServer | undefined;
+
+/**
+ * Start the shared mock API for a test run from `MOCK_API_ROUTES`
+ * (default `mocks/`) on `MOCK_API_PORT` (default 3100), with routes also
+ * reachable under `MOCK_API_PREFIX` (default `/api`)
+ */
+export async function startMockApi(): Promise<string> {
+  const routes = process.env.MOCK_API_ROUTES || 'mocks';
+  runningServer = MockServer.fromFiles(path.resolve(routes), {
+    prefix: process.env.MOCK_API_PREFIX ?? '/api',
+  });
+  return runningServer.start(Number(process.env.MOCK_API_PORT || 3100));
+}
+
+export async function stopMockApi(): Promise<void> {
+  await runningServer?.stop();
+  runningServer = undefined;
+}
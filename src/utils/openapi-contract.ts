@@ -0,0 +1,554 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { expect } from '@playwright/test';
+import type { test as baseTest } from '../base/base-test';
+import { ApiResponse } from './api-response';
+import { ApiCall } from './api-testing';
+import {
+  JsonSchema,
+  SchemaValidator,
+  SchemaViolation,
+} from './schema-validation';
+
+const HTTP_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'head',
+  'options',
+] as const;
+const COVERAGE_DIR = path.join(
+  process.cwd(),
+  'test-results',
+  'openapi-coverage'
+);
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+  schema?: Record<string, unknown>;
+}
+
+export interface OpenApiOperation {
+  id: string;
+  method: string;
+  path: string;
+  summary?: string;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    example?: unknown;
+  };
+  responses: Record<string, { schema?: JsonSchema }>;
+}
+
+/** The parts of a raw OpenAPI 3 document the contract reads */
+export interface OpenApiDocument {
+  openapi: string;
+  paths?: Record<string, OpenApiPathItem>;
+  components?: { schemas?: Record<string, JsonSchema> };
+}
+
+interface OpenApiReference {
+  $ref: string;
+}
+
+type MaybeRef<T> = T | OpenApiReference;
+
+interface OpenApiMediaType {
+  schema?: JsonSchema;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+}
+
+interface OpenApiOperationObject {
+  operationId?: string;
+  summary?: string;
+  parameters?: MaybeRef<OpenApiParameter>[];
+  requestBody?: MaybeRef<{
+    required?: boolean;
+    content?: Record<string, OpenApiMediaType>;
+  }>;
+  responses?: Record<
+    string,
+    MaybeRef<{ content?: Record<string, OpenApiMediaType> }>
+  >;
+}
+
+type OpenApiPathItem = {
+  parameters?: MaybeRef<OpenApiParameter>[];
+} & Partial<Record<(typeof HTTP_METHODS)[number], OpenApiOperationObject>>;
+
+export interface ContractTestOptions {
+  /** Values for path/query/header parameters that have no example */
+  params?: Record<string, string>;
+  /** Request bodies keyed by operation id, overriding spec examples */
+  bodies?: Record<string, unknown>;
+  /** Headers sent with every generated request */
+  headers?: Record<string, string>;
+  /** Operation ids to leave out of the generated suite */
+  exclude?: string[];
+}
+
+export interface OpenApiCoverageReport {
+  spec: string;
+  totalOperations: number;
+  coveredOperations: number;
+  coverage: number;
+  uncovered: Array<{ id: string; method: string; path: string }>;
+}
+
+/**
+ * Read an OpenAPI 3 document from a JSON or YAML file
+ */
+export function loadOpenApiSpec(filePath: string): OpenApiDocument {
+  const content = fs.readFileSync(path.resolve(filePath), 'utf-8');
+  const spec = /\.ya?ml$/i.test(filePath)
+    ? parseYaml(content)
+    : JSON.parse(content);
+
+  if (
+    !spec ||
+    typeof spec.openapi !== 'string' ||
+    !spec.openapi.startsWith('3')
+  ) {
+    throw new Error(`Not an OpenAPI 3 document: ${filePath}`);
+  }
+
+  return spec;
+}
+
+export class OpenApiContract {
+  private validator = new SchemaValidator();
+  private operations: OpenApiOperation[];
+  private documentId: string;
+
+  constructor(
+    private spec: OpenApiDocument,
+    documentId = 'openapi.json'
+  ) {
+    this.documentId = documentId;
+
+    // Register components so `#/components/schemas/...` refs resolve
+    this.validator.addSchema(
+      {
+        $id: documentId,
+        components: {
+          schemas: Object.fromEntries(
+            Object.entries(spec.components?.schemas || {}).map(
+              ([name, schema]) => [
+                name,
+                SchemaValidator.fromOpenApi(schema as JsonSchema),
+              ]
+            )
+          ),
+        },
+      },
+      documentId
+    );
+
+    this.operations = this.parseOperations();
+  }
+
+  static fromFile(filePath: string): OpenApiContract {
+    return new OpenApiContract(
+      loadOpenApiSpec(filePath),
+      path.basename(filePath)
+    );
+  }
+
+  getOperations(): OpenApiOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Find the operation a concrete request maps to, e.g. GET /users/42
+   */
+  findOperation(
+    method: string,
+    endpoint: string
+  ): OpenApiOperation | undefined {
+    const requestPath = endpoint.split('?')[0].replace(/\/+$/, '') || '/';
+
+    return this.operations.find(
+      (operation) =>
+        operation.method === method.toUpperCase() &&
+        this.pathPattern(operation.path).test(requestPath)
+    );
+  }
+
+  /**
+   * Build a concrete endpoint and header parameters from spec examples and
+   * supplied params, or return the names of required parameters that have
+   * no value. Header parameters also take their value from `headers`.
+   */
+  buildEndpoint(
+    operation: OpenApiOperation,
+    params: Record<string, string> = {},
+    headers: Record<string, string> = {}
+  ): { endpoint: string; headers: Record<string, string>; missing: string[] } {
+    const missing: string[] = [];
+    const query = new URLSearchParams();
+    const headerParams: Record<string, string> = {};
+
+    let endpoint = operation.path;
+    for (const parameter of operation.parameters) {
+      const value =
+        params[parameter.name] ??
+        (parameter.in === 'header'
+          ? this.headerValue(headers, parameter.name)
+          : undefined) ??
+        this.exampleValue(parameter);
+
+      if (value === undefined) {
+        if (parameter.required || parameter.in === 'path') {
+          missing.push(`${parameter.in}:${parameter.name}`);
+        }
+        continue;
+      }
+
+      if (parameter.in === 'path') {
+        endpoint = endpoint.replace(
+          `{${parameter.name}}`,
+          encodeURIComponent(String(value))
+        );
+      } else if (parameter.in === 'query') {
+        query.append(parameter.name, String(value));
+      } else if (parameter.in === 'header') {
+        headerParams[parameter.name] = String(value);
+      } else if (parameter.required) {
+        // Cookies are not sent by generated tests
+        missing.push(`${parameter.in}:${parameter.name}`);
+      }
+    }
+
+    const search = query.toString();
+    return {
+      endpoint: search ? `${endpoint}?${search}` : endpoint,
+      headers: headerParams,
+      missing,
+    };
+  }
+
+  /**
+   * Check status against the documented codes and body against its schema
+   */
+  validateResponse(
+    operation: OpenApiOperation,
+    response: ApiResponse
+  ): SchemaViolation[] {
+    const documented = this.matchResponse(operation, response.status);
+
+    if (!documented) {
+      return [
+        {
+          path: '',
+          keyword: 'status',
+          message: `status ${response.status} is not documented (expected one of ${Object.keys(
+            operation.responses
+          ).join(', ')})`,
+          params: { status: response.status },
+        },
+      ];
+    }
+
+    if (!documented.schema || response.status === 204) return [];
+
+    return this.validator.validate(response.body, documented.schema);
+  }
+
+  /**
+   * Operations that none of the given calls exercised
+   */
+  getUncoveredOperations(
+    calls: Array<Pick<ApiCall, 'method' | 'endpoint'>>
+  ): OpenApiOperation[] {
+    const covered = new Set<string>();
+    for (const call of calls) {
+      const operation = this.findOperation(call.method, call.endpoint);
+      if (operation) covered.add(operation.id);
+    }
+
+    return this.operations.filter((operation) => !covered.has(operation.id));
+  }
+
+  private parseOperations(): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = [];
+
+    for (const [apiPath, pathItem] of Object.entries(this.spec.paths || {})) {
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+
+        // Operation-level parameters override path-level ones of the same name
+        const parameters = new Map<string, OpenApiParameter>();
+        for (const parameter of [
+          ...(pathItem.parameters || []),
+          ...(operation.parameters || []),
+        ]) {
+          const resolved = this.resolveRef(parameter);
+          parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+        }
+
+        const requestBody = operation.requestBody
+          ? this.resolveRef(operation.requestBody)
+          : undefined;
+        const jsonBody = requestBody?.content?.['application/json'];
+        const bodySchema = jsonBody?.schema;
+        const bodyExample =
+          jsonBody?.example ??
+          Object.values(jsonBody?.examples || {})[0]?.value ??
+          (typeof bodySchema === 'object' ? bodySchema.example : undefined);
+
+        const responses: OpenApiOperation['responses'] = {};
+        for (const [status, response] of Object.entries(
+          operation.responses || {}
+        )) {
+          const resolved = this.resolveRef(response);
+          const schema = this.jsonContent(resolved.content)?.schema;
+          responses[status.toUpperCase()] = {
+            schema: schema ? this.prepareSchema(schema) : undefined,
+          };
+        }
+
+        operations.push({
+          id: operation.operationId || `${method.toUpperCase()} ${apiPath}`,
+          method: method.toUpperCase(),
+          path: apiPath,
+          summary: operation.summary,
+          parameters: Array.from(parameters.values()),
+          requestBody: requestBody
+            ? { required: !!requestBody.required, example: bodyExample }
+            : undefined,
+          responses,
+        });
+      }
+    }
+
+    return operations;
+  }
+
+  private matchResponse(
+    operation: OpenApiOperation,
+    status: number
+  ): { schema?: JsonSchema } | undefined {
+    const code = String(status);
+    return (
+      operation.responses[code] ||
+      operation.responses[`${code[0]}XX`] ||
+      operation.responses.DEFAULT
+    );
+  }
+
+  private jsonContent(
+    content?: Record<string, OpenApiMediaType>
+  ): OpenApiMediaType | undefined {
+    if (!content) return undefined;
+
+    const mediaType = Object.keys(content).find(
+      (type) => type === 'application/json' || type.endsWith('+json')
+    );
+    return mediaType ? content[mediaType] : undefined;
+  }
+
+  private headerValue(
+    headers: Record<string, string>,
+    name: string
+  ): string | undefined {
+    const key = Object.keys(headers).find(
+      (header) => header.toLowerCase() === name.toLowerCase()
+    );
+    return key !== undefined ? headers[key] : undefined;
+  }
+
+  private exampleValue(parameter: OpenApiParameter): unknown {
+    return (
+      parameter.example ??
+      Object.values(parameter.examples || {})[0]?.value ??
+      parameter.schema?.example ??
+      parameter.schema?.default
+    );
+  }
+
+  /**
+   * Resolve a local `$ref` to a reusable parameter, body or response
+   */
+  private resolveRef<T extends object>(node: MaybeRef<T>): T {
+    if (!('$ref' in node) || typeof node.$ref !== 'string') return node as T;
+
+    const pointer = node.$ref.replace(/^#\//, '').split('/');
+    let target: unknown = this.spec;
+    for (const segment of pointer) {
+      target = (target as Record<string, unknown> | undefined)?.[
+        segment.replace(/~1/g, '/').replace(/~0/g, '~')
+      ];
+    }
+
+    if (!target || typeof target !== 'object') {
+      throw new Error(`Unresolvable $ref in OpenAPI spec: ${node.$ref}`);
+    }
+
+    return this.resolveRef(target as MaybeRef<T>);
+  }
+
+  /**
+   * Point local component refs at the registered document and translate the
+   * OpenAPI dialect
+   */
+  private prepareSchema(schema: JsonSchema): JsonSchema {
+    const rewrite = (node: unknown): unknown => {
+      if (Array.isArray(node)) return node.map(rewrite);
+      if (!node || typeof node !== 'object') return node;
+
+      return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [
+          key,
+          key === '$ref' && typeof value === 'string' && value.startsWith('#/')
+            ? `${this.documentId}${value}`
+            : rewrite(value),
+        ])
+      );
+    };
+
+    return SchemaValidator.fromOpenApi(rewrite(schema) as JsonSchema);
+  }
+
+  private pathPattern(template: string): RegExp {
+    const source = template
+      .replace(/\/+$/, '')
+      .split(/\{[^}]+\}/)
+      .map((part) => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+      .join('[^/]+');
+
+    return new RegExp(`^${source || '/'}$`);
+  }
+}
+
+/**
+ * Register one Playwright test per operation in the spec. Each test calls the
+ * operation through `ApiTesting` with the spec's examples, checks the status is
+ * documented and validates the body against the matching response schema.
+ */
+export function registerContractTests(
+  test: typeof baseTest,
+  contract: OpenApiContract,
+  options: ContractTestOptions = {}
+): void {
+  for (const operation of contract.getOperations()) {
+    if (options.exclude?.includes(operation.id)) continue;
+
+    const title = operation.summary
+      ? `${operation.method} ${operation.path} - ${operation.summary}`
+      : `${operation.method} ${operation.path}`;
+
+    test(title, async ({ apiTesting }) => {
+      const { endpoint, headers, missing } = contract.buildEndpoint(
+        operation,
+        options.params,
+        options.headers
+      );
+      test.skip(
+        missing.length > 0,
+        `No example value for required parameters: ${missing.join(', ')}`
+      );
+
+      const data =
+        options.bodies?.[operation.id] ?? operation.requestBody?.example;
+      test.skip(
+        !!operation.requestBody?.required && data === undefined,
+        `No example request body for ${operation.id}`
+      );
+
+      const response = await apiTesting.send(operation.method, endpoint, {
+        data,
+        headers: { ...options.headers, ...headers },
+      });
+
+      const violations = contract.validateResponse(operation, response);
+      expect(
+        violations,
+        `${operation.method} ${endpoint} violates the OpenAPI contract`
+      ).toEqual([]);
+    });
+  }
+}
+
+/**
+ * Append API calls made by a test to this worker's coverage log
+ */
+export function recordApiCoverage(
+  calls: ApiCall[],
+  dir = COVERAGE_DIR
+): void {
+  if (calls.length === 0) return;
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.appendFileSync(
+    path.join(dir, `calls-${process.pid}.jsonl`),
+    calls
+      .map((call) =>
+        JSON.stringify({ method: call.method, endpoint: call.endpoint })
+      )
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Remove coverage logs left over from a previous run
+ */
+export function resetApiCoverage(dir = COVERAGE_DIR): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Compare all recorded calls with the spec and write `report.json`
+ */
+export function generateApiCoverageReport(
+  specPath: string,
+  dir = COVERAGE_DIR
+): OpenApiCoverageReport {
+  const contract = OpenApiContract.fromFile(specPath);
+  const calls: Array<Pick<ApiCall, 'method' | 'endpoint'>> = [];
+
+  if (fs.existsSync(dir)) {
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.jsonl')) continue;
+
+      fs.readFileSync(path.join(dir, file), 'utf-8')
+        .split('\n')
+        .filter(Boolean)
+        .forEach((line) => calls.push(JSON.parse(line)));
+    }
+  }
+
+  const totalOperations = contract.getOperations().length;
+  const uncovered = contract.getUncoveredOperations(calls);
+  const report: OpenApiCoverageReport = {
+    spec: specPath,
+    totalOperations,
+    coveredOperations: totalOperations - uncovered.length,
+    coverage:
+      totalOperations > 0
+        ? ((totalOperations - uncovered.length) / totalOperations) * 100
+        : 100,
+    uncovered: uncovered.map(({ id, method, path: apiPath }) => ({
+      id,
+      method,
+      path: apiPath,
+    })),
+  };
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, 'report.json'),
+    JSON.stringify(report, null, 2)
+  );
+
+  return report;
+}
@@ -0,0 +1,238 @@
+// Minimal PNG codec for screenshot comparison: decodes non-interlaced PNGs
+// of any color type into RGBA and encodes RGBA back to PNG
+
+import zlib from 'zlib';
+
+/** 8-bit RGBA pixels, row by row */
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+const SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Samples per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Blank image of the given size, transparent unless a color is given
+ */
+export function createImage(
+  width: number,
+  height: number,
+  rgba: [number, number, number, number] = [0, 0, 0, 0]
+): RawImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = rgba[0];
+    data[i + 1] = rgba[1];
+    data[i + 2] = rgba[2];
+    data[i + 3] = rgba[3];
+  }
+  return { width, height, data };
+}
+
+export function decodePng(buffer: Buffer): RawImage {
+  if (!buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 6;
+  let palette: Buffer = Buffer.alloc(0);
+  let transparency: Buffer = Buffer.alloc(0);
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels) {
+    throw new Error(`Unsupported PNG color type ${colorType}`);
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilter(
+    zlib.inflateSync(Buffer.concat(idat)),
+    stride,
+    height,
+    bytesPerPixel
+  );
+
+  const maxSample = 2 ** bitDepth - 1;
+  const sample = (row: number, index: number): number => {
+    const start = row * stride;
+    if (bitDepth === 8) return raw[start + index];
+    if (bitDepth === 16) return raw[start + index * 2];
+    const bit = index * bitDepth;
+    const byte = raw[start + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Low bit depth gray scales up to 0-255; 16-bit was already cut to 8
+  const scale = (value: number): number =>
+    bitDepth < 8 ? Math.round((value * 255) / maxSample) : value;
+
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const s = x * channels;
+      let rgba: number[];
+
+      switch (colorType) {
+      case 0: {
+        const gray = scale(sample(y, s));
+        rgba = [gray, gray, gray, 255];
+        break;
+      }
+      case 2:
+        rgba = [sample(y, s), sample(y, s + 1), sample(y, s + 2), 255];
+        break;
+      case 3: {
+        const index = sample(y, s);
+        rgba = [
+          palette[index * 3],
+          palette[index * 3 + 1],
+          palette[index * 3 + 2],
+          index < transparency.length ? transparency[index] : 255,
+        ];
+        break;
+      }
+      case 4: {
+        const gray = sample(y, s);
+        rgba = [gray, gray, gray, sample(y, s + 1)];
+        break;
+      }
+      default:
+        rgba = [
+          sample(y, s),
+          sample(y, s + 1),
+          sample(y, s + 2),
+          sample(y, s + 3),
+        ];
+      }
+      image.data.set(rgba, i);
+    }
+  }
+  return image;
+}
+
+export function encodePng(image: RawImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Filter type 0 (none) on every row
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// Reverse the per-row filters (None, Sub, Up, Average, Paeth)
+function unfilter(
+  data: Buffer,
+  stride: number,
+  height: number,
+  bytesPerPixel: number
+): Buffer {
+  const out = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const line = y * (stride + 1) + 1;
+    const row = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[row - stride + x] : 0;
+      const upLeft =
+        y > 0 && x >= bytesPerPixel ? out[row - stride + x - bytesPerPixel] : 0;
+      let predictor = 0;
+
+      switch (filter) {
+      case 1:
+        predictor = left;
+        break;
+      case 2:
+        predictor = up;
+        break;
+      case 3:
+        predictor = (left + up) >> 1;
+        break;
+      case 4: {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+        break;
+      }
+      }
+      out[row + x] = (data[line + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
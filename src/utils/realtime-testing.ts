@@ -0,0 +1,555 @@
+import { Page } from '@playwright/test';
+import WebSocket from 'ws';
+import { JsonSchema, SchemaValidator } from './schema-validation';
+
+declare global {
+  interface Window {
+    /** Binding exposed by installEventSourceTap() */
+    __realtimeSseTap: (url: string, event: string, data: string) => void;
+  }
+}
+
+export type RealtimeKind = 'websocket' | 'sse';
+
+export interface RealtimeMessage {
+  kind: RealtimeKind;
+  url: string;
+  direction: 'received' | 'sent';
+  /** SSE event name (`message` unless the server named it) */
+  event?: string;
+  /** Text payload; binary WebSocket frames are base64 encoded */
+  data: string;
+  /** Parsed payload when the data is JSON */
+  json?: unknown;
+  timestamp: string;
+}
+
+export type MessageMatcher =
+  | ((message: RealtimeMessage) => boolean)
+  | {
+      direction?: RealtimeMessage['direction'];
+      event?: string;
+      contains?: string | RegExp;
+      /** Partial JSON payload that must be contained in the message */
+      json?: Record<string, unknown>;
+      /** Schema (or registered schema id) the JSON payload must satisfy */
+      schema?: JsonSchema | string;
+    };
+
+interface EventSourceTap {
+  url: string | RegExp;
+  channel: RealtimeChannel;
+}
+
+/**
+ * Messages of one connection, or of every page connection matching a URL
+ */
+export class RealtimeChannel {
+  readonly messages: RealtimeMessage[] = [];
+  private waiters = new Set<() => void>();
+  private sender?: (data: string) => void;
+  private closer?: () => void;
+
+  constructor(
+    readonly kind: RealtimeKind,
+    readonly url: string,
+    private schemaValidator: SchemaValidator
+  ) {}
+
+  /**
+   * Add a message and wake up anyone waiting for it
+   */
+  record(
+    message: Omit<RealtimeMessage, 'kind' | 'json' | 'timestamp'>
+  ): void {
+    let json: unknown;
+    try {
+      json = JSON.parse(message.data);
+    } catch {
+      json = undefined;
+    }
+
+    this.messages.push({
+      kind: this.kind,
+      ...message,
+      json,
+      timestamp: new Date().toISOString(),
+    });
+    this.waiters.forEach((waiter) => waiter());
+  }
+
+  /**
+   * Connect the channel to the underlying socket or stream
+   */
+  attach(handlers: { send?: (data: string) => void; close: () => void }) {
+    this.sender = handlers.send;
+    this.closer = handlers.close;
+  }
+
+  /**
+   * Wait for the first message (already received or not) matching
+   */
+  async waitForMessage(
+    matcher: MessageMatcher,
+    options?: { timeout?: number }
+  ): Promise<RealtimeMessage> {
+    const [message] = await this.expectSequence([matcher], options);
+    return message;
+  }
+
+  /**
+   * Wait for messages matching each matcher in order; other messages may
+   * arrive in between
+   */
+  async expectSequence(
+    matchers: MessageMatcher[],
+    options?: { timeout?: number }
+  ): Promise<RealtimeMessage[]> {
+    const timeout = options?.timeout ?? 10000;
+    const deadline = Date.now() + timeout;
+    const matched: RealtimeMessage[] = [];
+    let from = 0;
+
+    for (let step = 0; step < matchers.length; step++) {
+      const index = await this.waitForIndex(matchers[step], from, deadline);
+
+      if (index < 0) {
+        const prefix =
+          matchers.length > 1
+            ? `Step ${step + 1} of ${matchers.length}: no`
+            : 'No';
+        throw new Error(
+          `${prefix} ${this.kind} message matching ${this.describe(
+            matchers[step]
+          )} on ${this.url} within ${timeout}ms. ${this.summary()}`
+        );
+      }
+
+      matched.push(this.messages[index]);
+      from = index + 1;
+    }
+
+    return matched;
+  }
+
+  /**
+   * Fail if a matching message arrives within the given time
+   */
+  async expectNoMessage(
+    matcher: MessageMatcher,
+    options?: { duration?: number }
+  ): Promise<void> {
+    const from = this.messages.length;
+    await new Promise((resolve) =>
+      setTimeout(resolve, options?.duration ?? 1000)
+    );
+
+    const unexpected = this.messages
+      .slice(from)
+      .find((message) => this.matches(message, matcher));
+    if (unexpected) {
+      throw new Error(
+        `Unexpected ${this.kind} message on ${this.url}: ${unexpected.data}`
+      );
+    }
+  }
+
+  /**
+   * Send a frame on a direct WebSocket connection
+   */
+  send(data: string | object): void {
+    if (!this.sender) {
+      throw new Error(`Cannot send on ${this.kind} channel ${this.url}`);
+    }
+
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    this.sender(payload);
+    this.record({ url: this.url, direction: 'sent', data: payload });
+  }
+
+  close(): void {
+    this.closer?.();
+    this.closer = undefined;
+  }
+
+  private waitForIndex(
+    matcher: MessageMatcher,
+    from: number,
+    deadline: number
+  ): Promise<number> {
+    return new Promise((resolve) => {
+      let checked = from;
+
+      const finish = (index: number) => {
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        resolve(index);
+      };
+
+      const check = () => {
+        for (; checked < this.messages.length; checked++) {
+          if (this.matches(this.messages[checked], matcher)) {
+            finish(checked);
+            return;
+          }
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(-1),
+        Math.max(0, deadline - Date.now())
+      );
+      this.waiters.add(check);
+      check();
+    });
+  }
+
+  private matches(message: RealtimeMessage, matcher: MessageMatcher): boolean {
+    if (typeof matcher === 'function') return matcher(message);
+
+    if (matcher.direction && message.direction !== matcher.direction) {
+      return false;
+    }
+    if (matcher.event && message.event !== matcher.event) return false;
+
+    if (matcher.contains !== undefined) {
+      const found =
+        typeof matcher.contains === 'string'
+          ? message.data.includes(matcher.contains)
+          : matcher.contains.test(message.data);
+      if (!found) return false;
+    }
+
+    if (matcher.json && !this.containsJson(message.json, matcher.json)) {
+      return false;
+    }
+
+    if (matcher.schema) {
+      return (
+        message.json !== undefined &&
+        this.schemaValidator.validate(message.json, matcher.schema).length ===
+          0
+      );
+    }
+
+    return true;
+  }
+
+  private containsJson(actual: unknown, expected: unknown): boolean {
+    if (expected === null || typeof expected !== 'object') {
+      return actual === expected;
+    }
+    if (actual === null || typeof actual !== 'object') return false;
+
+    return Object.entries(expected).every(([key, value]) =>
+      this.containsJson((actual as Record<string, unknown>)[key], value)
+    );
+  }
+
+  private describe(matcher: MessageMatcher): string {
+    if (typeof matcher === 'function') return 'predicate';
+
+    return JSON.stringify({
+      ...matcher,
+      contains: matcher.contains?.toString(),
+      schema: matcher.schema ? '(schema)' : undefined,
+    });
+  }
+
+  private summary(): string {
+    if (this.messages.length === 0) return 'No messages received.';
+
+    const last = this.messages.slice(-5).map((m) => `  ${m.data}`);
+    return `Received ${this.messages.length}, last ${last.length}:\n${last.join(
+      '\n'
+    )}`;
+  }
+}
+
+/**
+ * Observe WebSocket and Server-Sent Events traffic, either over connections
+ * opened by the test or by tapping the page's own connections
+ */
+export class RealtimeTesting {
+  private channels: RealtimeChannel[] = [];
+  private schemaValidator = new SchemaValidator();
+  private sseTaps: EventSourceTap[] = [];
+  private sseTapInstalled?: Promise<void>;
+
+  constructor(
+    private baseURL?: string,
+    private page?: Page
+  ) {}
+
+  /**
+   * Tap connections of this page. The fixture leaves the page out so
+   * connections opened from the test don't start a browser.
+   */
+  attachPage(page: Page): void {
+    if (this.page && this.page !== page) {
+      throw new Error('realtimeTesting is already attached to another page');
+    }
+    this.page = page;
+  }
+
+  /**
+   * Register a schema so matchers can refer to it by id
+   */
+  registerSchema(schema: JsonSchema, id: string): void {
+    this.schemaValidator.addSchema(schema, id);
+  }
+
+  /**
+   * Open a WebSocket from the test; relative URLs use the base URL
+   */
+  async connectWebSocket(
+    url: string,
+    options?: {
+      headers?: Record<string, string>;
+      protocols?: string[];
+      timeout?: number;
+    }
+  ): Promise<RealtimeChannel> {
+    const resolved = this.resolveUrl(url).replace(/^http/, 'ws');
+    const channel = this.createChannel('websocket', resolved);
+    const socket = new WebSocket(resolved, options?.protocols, {
+      headers: options?.headers,
+      handshakeTimeout: options?.timeout ?? 10000,
+    });
+
+    socket.on('message', (data, isBinary) =>
+      channel.record({
+        url: resolved,
+        direction: 'received',
+        data: isBinary
+          ? Buffer.from(data as Buffer).toString('base64')
+          : data.toString(),
+      })
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', (error) =>
+        reject(new Error(`WebSocket ${resolved} failed: ${error.message}`))
+      );
+    });
+
+    channel.attach({
+      send: (data) => socket.send(data),
+      close: () => socket.close(),
+    });
+    return channel;
+  }
+
+  /**
+   * Open a Server-Sent Events stream from the test
+   */
+  async connectEventSource(
+    url: string,
+    options?: { headers?: Record<string, string> }
+  ): Promise<RealtimeChannel> {
+    const resolved = this.resolveUrl(url);
+    const channel = this.createChannel('sse', resolved);
+    const controller = new AbortController();
+
+    const response = await fetch(resolved, {
+      headers: { Accept: 'text/event-stream', ...options?.headers },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      controller.abort();
+      throw new Error(`SSE stream ${resolved} failed: ${response.status}`);
+    }
+
+    this.readEventStream(response.body, channel, resolved);
+    channel.attach({ close: () => controller.abort() });
+    return channel;
+  }
+
+  /**
+   * Record frames of page WebSockets whose URL contains or matches `url`.
+   * Call before the page opens the connection.
+   */
+  tapWebSocket(url: string | RegExp): RealtimeChannel {
+    const page = this.requirePage('tapWebSocket');
+    const channel = this.createChannel('websocket', url.toString());
+
+    page.on('websocket', (socket) => {
+      if (!this.urlMatches(socket.url(), url)) return;
+
+      socket.on('framereceived', (frame) =>
+        channel.record({
+          url: socket.url(),
+          direction: 'received',
+          data: this.framePayload(frame.payload),
+        })
+      );
+      socket.on('framesent', (frame) =>
+        channel.record({
+          url: socket.url(),
+          direction: 'sent',
+          data: this.framePayload(frame.payload),
+        })
+      );
+    });
+
+    return channel;
+  }
+
+  /**
+   * Record events of page `EventSource`s whose URL contains or matches
+   * `url`. Call before navigating, since the tap is installed on page load.
+   */
+  async tapEventSource(url: string | RegExp): Promise<RealtimeChannel> {
+    const page = this.requirePage('tapEventSource');
+    const channel = this.createChannel('sse', url.toString());
+    this.sseTaps.push({ url, channel });
+
+    if (!this.sseTapInstalled) {
+      this.sseTapInstalled = this.installEventSourceTap(page);
+    }
+    await this.sseTapInstalled;
+
+    return channel;
+  }
+
+  /**
+   * Every channel opened or tapped by this instance
+   */
+  getChannels(): RealtimeChannel[] {
+    return [...this.channels];
+  }
+
+  closeAll(): void {
+    this.channels.forEach((channel) => channel.close());
+  }
+
+  private createChannel(kind: RealtimeKind, url: string): RealtimeChannel {
+    const channel = new RealtimeChannel(kind, url, this.schemaValidator);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  private requirePage(method: string): Page {
+    if (!this.page) {
+      throw new Error(
+        `${method}() needs a page; call realtimeTesting.attachPage(page) first`
+      );
+    }
+    return this.page;
+  }
+
+  private async installEventSourceTap(page: Page): Promise<void> {
+    await page.exposeBinding(
+      '__realtimeSseTap',
+      (_source, url: string, event: string, data: string) => {
+        this.sseTaps
+          .filter((tap) => this.urlMatches(url, tap.url))
+          .forEach((tap) =>
+            tap.channel.record({ url, direction: 'received', event, data })
+          );
+      }
+    );
+
+    // Named events only reach listeners for that name, so forward each
+    // event type the page itself subscribes to
+    await page.addInitScript(() => {
+      const NativeEventSource = window.EventSource;
+
+      window.EventSource = class extends NativeEventSource {
+        constructor(url: string | URL, init?: { withCredentials?: boolean }) {
+          super(url, init);
+
+          const tapped = new Set<string>();
+          const addListener = this.addEventListener.bind(this);
+          const forward = (type: string) => {
+            if (tapped.has(type) || type === 'open' || type === 'error') {
+              return;
+            }
+            tapped.add(type);
+            addListener(type, (event) =>
+              window.__realtimeSseTap(
+                this.url,
+                type,
+                String((event as MessageEvent).data)
+              )
+            );
+          };
+
+          forward('message');
+          this.addEventListener = ((
+            ...args: Parameters<EventSource['addEventListener']>
+          ) => {
+            forward(args[0]);
+            return addListener(...args);
+          }) as EventSource['addEventListener'];
+        }
+      };
+    });
+  }
+
+  /**
+   * Parse a `text/event-stream` body until it ends or is aborted
+   */
+  private async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    channel: RealtimeChannel,
+    url: string
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event = 'message';
+    let data: string[] = [];
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (line === '') {
+            if (data.length > 0) {
+              channel.record({
+                url,
+                direction: 'received',
+                event,
+                data: data.join('\n'),
+              });
+            }
+            event = 'message';
+            data = [];
+          } else if (!line.startsWith(':')) {
+            const separator = line.indexOf(':');
+            const field = separator < 0 ? line : line.slice(0, separator);
+            const value =
+              separator < 0 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+            if (field === 'event') event = value;
+            if (field === 'data') data.push(value);
+          }
+        }
+      }
+    } catch {
+      // Aborted by close()
+    }
+  }
+
+  private resolveUrl(url: string): string {
+    return new URL(url, this.baseURL || 'http://localhost:3000').toString();
+  }
+
+  private urlMatches(actual: string, expected: string | RegExp): boolean {
+    return typeof expected === 'string'
+      ? actual.includes(expected)
+      : expected.test(actual);
+  }
+
+  private framePayload(payload: string | Buffer): string {
+    return typeof payload === 'string' ? payload : payload.toString('base64');
+  }
+}
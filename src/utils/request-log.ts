@@ -0,0 +1,265 @@
+import { BrowserContext, Request, expect } from '@playwright/test';
+
+export interface LoggedRequest {
+  method: string;
+  url: string;
+  resourceType: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text when it is not JSON */
+  body?: unknown;
+  /** Response status, missing while pending or when the request failed */
+  status?: number;
+  failure?: string;
+  startedAt: number;
+  durationMs?: number;
+}
+
+export type RequestMatcher =
+  | string
+  | RegExp
+  | ((request: LoggedRequest) => boolean)
+  | {
+      method?: string;
+      /** Substring of, or pattern for, the request URL */
+      url?: string | RegExp;
+      /** Partial JSON body that must be contained in the request */
+      body?: Record<string, unknown>;
+      status?: number;
+      resourceType?: string;
+    };
+
+export interface DuplicateOptions {
+  /** Requests this close together count as duplicates, in milliseconds */
+  windowMs?: number;
+  /** Resource types checked; static assets are ignored by default */
+  resourceTypes?: string[];
+  /** Requests that may legitimately repeat, e.g. polling endpoints */
+  ignore?: RequestMatcher[];
+}
+
+export interface DuplicateRequest {
+  method: string;
+  url: string;
+  count: number;
+}
+
+/**
+ * Records every request of a browser context for network assertions
+ */
+export class RequestLog {
+  private requests: LoggedRequest[] = [];
+  private byRequest = new Map<Request, LoggedRequest>();
+
+  constructor(context: BrowserContext) {
+    context.on('request', (request) => this.onRequest(request));
+    context.on('response', (response) => {
+      const entry = this.byRequest.get(response.request());
+      if (entry) entry.status = response.status();
+    });
+    context.on('requestfinished', (request) => {
+      const entry = this.byRequest.get(request);
+      if (entry) entry.durationMs = Date.now() - entry.startedAt;
+    });
+    context.on('requestfailed', (request) => {
+      const entry = this.byRequest.get(request);
+      if (entry) {
+        entry.failure = request.failure()?.errorText || 'failed';
+        entry.durationMs = Date.now() - entry.startedAt;
+      }
+    });
+  }
+
+  getRequests(matcher?: RequestMatcher): LoggedRequest[] {
+    return matcher
+      ? this.requests.filter((request) => this.matches(request, matcher))
+      : [...this.requests];
+  }
+
+  clear(): void {
+    this.requests = [];
+    this.byRequest.clear();
+  }
+
+  /**
+   * Wait until a matching request was made, `times` times if given
+   */
+  async expectRequest(
+    matcher: RequestMatcher,
+    options: { times?: number; timeout?: number } = {}
+  ): Promise<LoggedRequest[]> {
+    const { times, timeout = 10000 } = options;
+    const poll = expect.poll(() => this.getRequests(matcher).length, {
+      message: `Expected ${this.describe(matcher)} to be requested${
+        times === undefined ? '' : ` ${times} time(s)`
+      }\n${this.summary()}`,
+      timeout,
+    });
+
+    if (times === undefined) {
+      await poll.toBeGreaterThan(0);
+    } else {
+      await poll.toBe(times);
+    }
+    return this.getRequests(matcher);
+  }
+
+  /**
+   * Assert no matching request has been made so far
+   */
+  expectNoRequest(matcher: RequestMatcher): void {
+    const found = this.getRequests(matcher);
+    expect(
+      found.map((request) => `${request.method} ${request.url}`),
+      `Expected no request to ${this.describe(matcher)}`
+    ).toEqual([]);
+  }
+
+  /**
+   * Assert no request answered with a 5xx status
+   */
+  expectNoServerErrors(matcher?: RequestMatcher): void {
+    const errors = this.getRequests(matcher).filter(
+      (request) => request.status !== undefined && request.status >= 500
+    );
+    expect(
+      errors.map(
+        (request) => `${request.status} ${request.method} ${request.url}`
+      ),
+      'Expected no 5xx responses'
+    ).toEqual([]);
+  }
+
+  /**
+   * Requests with the same method, URL and body sent within `windowMs`
+   */
+  findDuplicates(options: DuplicateOptions = {}): DuplicateRequest[] {
+    const {
+      windowMs = 1000,
+      resourceTypes = ['fetch', 'xhr'],
+      ignore = [],
+    } = options;
+    const lastSeen = new Map<string, number>();
+    const duplicates = new Map<string, DuplicateRequest>();
+
+    for (const request of this.requests) {
+      if (!resourceTypes.includes(request.resourceType)) continue;
+      if (ignore.some((matcher) => this.matches(request, matcher))) continue;
+
+      const key = `${request.method} ${request.url} ${JSON.stringify(
+        request.body ?? null
+      )}`;
+      const previous = lastSeen.get(key);
+      lastSeen.set(key, request.startedAt);
+
+      if (previous !== undefined && request.startedAt - previous <= windowMs) {
+        const duplicate = duplicates.get(key) || {
+          method: request.method,
+          url: request.url,
+          count: 1,
+        };
+        duplicate.count++;
+        duplicates.set(key, duplicate);
+      }
+    }
+
+    return [...duplicates.values()];
+  }
+
+  expectNoDuplicates(options: DuplicateOptions = {}): void {
+    expect(
+      this.findDuplicates(options),
+      'Expected no duplicate requests'
+    ).toEqual([]);
+  }
+
+  private onRequest(request: Request): void {
+    const text = request.postData();
+    let body: unknown = text ?? undefined;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep the raw text for form and plain bodies
+      }
+    }
+
+    const entry: LoggedRequest = {
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      headers: request.headers(),
+      body,
+      startedAt: Date.now(),
+    };
+    this.requests.push(entry);
+    this.byRequest.set(request, entry);
+  }
+
+  private matches(request: LoggedRequest, matcher: RequestMatcher): boolean {
+    if (typeof matcher === 'function') return matcher(request);
+    if (typeof matcher === 'string' || matcher instanceof RegExp) {
+      return this.matchesUrl(request.url, matcher);
+    }
+
+    if (matcher.method && request.method !== matcher.method.toUpperCase()) {
+      return false;
+    }
+    if (matcher.url && !this.matchesUrl(request.url, matcher.url)) {
+      return false;
+    }
+    if (matcher.resourceType && request.resourceType !== matcher.resourceType) {
+      return false;
+    }
+    if (matcher.status !== undefined && request.status !== matcher.status) {
+      return false;
+    }
+    if (matcher.body && !this.containsJson(request.body, matcher.body)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private matchesUrl(url: string, pattern: string | RegExp): boolean {
+    return typeof pattern === 'string'
+      ? url.includes(pattern)
+      : pattern.test(url);
+  }
+
+  private containsJson(actual: unknown, expected: unknown): boolean {
+    if (expected === null || typeof expected !== 'object') {
+      return actual === expected;
+    }
+    if (actual === null || typeof actual !== 'object') return false;
+
+    return Object.entries(expected).every(([key, value]) =>
+      this.containsJson((actual as Record<string, unknown>)[key], value)
+    );
+  }
+
+  private describe(matcher: RequestMatcher): string {
+    if (typeof matcher === 'function') return 'a matching request';
+    if (typeof matcher === 'string' || matcher instanceof RegExp) {
+      return String(matcher);
+    }
+
+    const parts = [matcher.method?.toUpperCase(), matcher.url?.toString()];
+    if (matcher.body) parts.push(`with body ${JSON.stringify(matcher.body)}`);
+    return parts.filter(Boolean).join(' ') || 'any request';
+  }
+
+  private summary(): string {
+    const recent = this.requests
+      .filter((request) => ['fetch', 'xhr'].includes(request.resourceType))
+      .slice(-10)
+      .map(
+        (request) =>
+          `  ${request.method} ${request.url} -> ${
+            request.status ?? request.failure ?? 'pending'
+          }`
+      );
+    return recent.length > 0
+      ? `Recent API requests:\n${recent.join('\n')}`
+      : 'No API requests were made';
+  }
+}
@@ -0,0 +1,111 @@
+import { APIResponse } from '@playwright/test';
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for every further retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fraction of each delay that is randomised (0 = none, 1 = full jitter) */
+  jitter: number;
+  retryOnStatus: number[];
+  retryOnNetworkError: boolean;
+  /** Wait as long as the server's `Retry-After` header asks (capped) */
+  respectRetryAfter: boolean;
+  /** Also retry POST and PATCH, which may not be safe to repeat */
+  retryNonIdempotent: boolean;
+}
+
+export interface RetryRecord {
+  method: string;
+  endpoint: string;
+  attempt: number;
+  reason: string;
+  delayMs: number;
+  timestamp: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: 0.5,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export function resolveRetryPolicy(
+  ...overrides: Array<Partial<RetryPolicy> | undefined>
+): RetryPolicy {
+  return Object.assign({}, DEFAULT_RETRY_POLICY, ...overrides);
+}
+
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Decide whether a failed attempt should be retried and how long to wait.
+ * Returns null when the response should be returned (or the error thrown).
+ */
+export function getRetryDecision(
+  policy: RetryPolicy,
+  method: string,
+  attempt: number,
+  response?: APIResponse,
+  error?: unknown
+): { reason: string; delayMs: number } | null {
+  if (attempt >= policy.maxAttempts) return null;
+  if (!policy.retryNonIdempotent && !isIdempotent(method)) return null;
+
+  let reason: string;
+  if (error) {
+    if (!policy.retryOnNetworkError) return null;
+    reason =
+      error instanceof Error ? error.message.split('\n')[0] : String(error);
+  } else if (response && policy.retryOnStatus.includes(response.status())) {
+    reason = `status ${response.status()}`;
+  } else {
+    return null;
+  }
+
+  const retryAfter = policy.respectRetryAfter
+    ? parseRetryAfter(response?.headers()['retry-after'])
+    : undefined;
+
+  return {
+    reason,
+    delayMs:
+      retryAfter !== undefined
+        ? Math.min(retryAfter, policy.maxDelayMs)
+        : backoffDelay(policy, attempt),
+  };
+}
+
+/**
+ * Exponential backoff with jitter for the retry after `attempt`
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * `Retry-After` is either delay seconds or an HTTP date
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
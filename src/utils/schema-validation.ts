@@ -0,0 +1,370 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+
+export type JsonSchema = Record<string, unknown> | boolean;
+
+export interface SchemaViolation {
+  /** JSON pointer to the offending value, e.g. `/user/roles/0` */
+  path: string;
+  keyword: string;
+  message: string;
+  params: Record<string, unknown>;
+}
+
+// Draft 2020-12 keywords plus the OpenAPI 3.0 additions we translate
+const SCHEMA_KEYWORDS = new Set([
+  '$schema',
+  '$id',
+  '$ref',
+  '$defs',
+  '$anchor',
+  '$dynamicRef',
+  '$dynamicAnchor',
+  '$comment',
+  'definitions',
+  'type',
+  'enum',
+  'const',
+  'format',
+  'nullable',
+  'properties',
+  'required',
+  'additionalProperties',
+  'patternProperties',
+  'propertyNames',
+  'minProperties',
+  'maxProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'unevaluatedProperties',
+  'items',
+  'prefixItems',
+  'contains',
+  'minContains',
+  'maxContains',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'unevaluatedItems',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'not',
+  'if',
+  'then',
+  'else',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'example',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+  'discriminator',
+  'xml',
+  'externalDocs',
+]);
+
+const SCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  '$defs',
+  'definitions',
+  'dependentSchemas',
+];
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SUBSCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+];
+
+const JSON_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+  'null',
+];
+
+// Keywords that describe the data itself, as opposed to annotations
+const STRUCTURAL_KEYWORDS = new Set([
+  'type',
+  'enum',
+  'const',
+  'properties',
+  'items',
+  'prefixItems',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'not',
+]);
+
+const BOOLEAN_KEYWORDS = [
+  'nullable',
+  'uniqueItems',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+];
+const ARRAY_KEYWORDS = ['required', 'enum', 'examples'];
+// Values these keywords take freely, e.g. `default` or `example`
+const ANY_VALUE_KEYWORDS = ['const', 'default', 'example'];
+
+function isPlainObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Whether a keyword's value has the shape JSON Schema gives it. Strings that
+// are type names only make sense as `type`; elsewhere they are shorthand.
+function hasKeywordShape(key: string, value: unknown): boolean {
+  if (key === 'type') {
+    const types = Array.isArray(value) ? value : [value];
+    return (
+      types.length > 0 &&
+      types.every(
+        (type) => typeof type === 'string' && JSON_TYPES.includes(type)
+      )
+    );
+  }
+  if (ANY_VALUE_KEYWORDS.includes(key)) return true;
+  if (BOOLEAN_KEYWORDS.includes(key)) return typeof value === 'boolean';
+  if (ARRAY_KEYWORDS.includes(key) || SCHEMA_LIST_KEYWORDS.includes(key)) {
+    return Array.isArray(value);
+  }
+  if (SCHEMA_MAP_KEYWORDS.includes(key)) return isPlainObject(value);
+  if (SUBSCHEMA_KEYWORDS.includes(key) || key.startsWith('unevaluated')) {
+    return typeof value === 'boolean' || isPlainObject(value);
+  }
+  if (typeof value === 'number') return !key.startsWith('$');
+  if (typeof value === 'string') return !JSON_TYPES.includes(value);
+  return isPlainObject(value);
+}
+
+export class SchemaValidator {
+  private ajv: Ajv2020;
+  private compiled = new WeakMap<object, ValidateFunction>();
+
+  constructor() {
+    // strict: false lets OpenAPI annotations such as `example` or `xml` through
+    this.ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(this.ajv);
+  }
+
+  /**
+   * Register a schema so other schemas can `$ref` it by id
+   */
+  addSchema(schema: JsonSchema, id: string): void {
+    if (!this.ajv.getSchema(id)) {
+      this.ajv.addSchema(
+        SchemaValidator.fromOpenApi(schema) as Record<string, unknown>,
+        id
+      );
+    }
+  }
+
+  /**
+   * Validate data and return every violation (empty when valid)
+   */
+  validate(data: unknown, schema: JsonSchema | string): SchemaViolation[] {
+    const validateFn = this.compile(schema);
+
+    if (validateFn(data)) return [];
+
+    return (validateFn.errors || []).map((error) => this.toViolation(error));
+  }
+
+  /**
+   * Validate data and throw with the full list of violations
+   */
+  assertValid(
+    data: unknown,
+    schema: JsonSchema | string,
+    label?: string
+  ): void {
+    const violations = this.validate(data, schema);
+    if (violations.length === 0) return;
+
+    const details = violations
+      .map((v) => `  ${v.path || '/'}: ${v.message}`)
+      .join('\n');
+
+    throw new Error(
+      `${label || 'Response'} does not match schema (${violations.length} violation${
+        violations.length === 1 ? '' : 's'
+      }):\n${details}`
+    );
+  }
+
+  /**
+   * Whether the object is a JSON Schema rather than the legacy
+   * `{ key: 'string' }` shorthand: it declares `$schema` or `$ref`, or uses
+   * only schema keywords with values of the right shape and at least one of
+   * them says what the data is (`type`, `properties`, `items`, `oneOf`...).
+   * `{ type: 'string', format: 'string' }` is therefore shorthand.
+   */
+  static isJsonSchema(schema: unknown): boolean {
+    if (typeof schema === 'boolean') return true;
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return false;
+    }
+
+    const entries = Object.entries(schema);
+    if ('$schema' in schema || '$ref' in schema) return true;
+    return (
+      entries.every(
+        ([key, value]) =>
+          SCHEMA_KEYWORDS.has(key) && hasKeywordShape(key, value)
+      ) && entries.some(([key]) => STRUCTURAL_KEYWORDS.has(key))
+    );
+  }
+
+  /**
+   * Convert the legacy `{ key: 'type' }` shorthand into a JSON Schema where
+   * every listed key is required
+   */
+  static fromShorthand(shorthand: unknown): JsonSchema {
+    if (typeof shorthand === 'string') {
+      return { type: shorthand };
+    }
+
+    if (Array.isArray(shorthand)) {
+      return shorthand.length > 0
+        ? { type: 'array', items: SchemaValidator.fromShorthand(shorthand[0]) }
+        : { type: 'array' };
+    }
+
+    if (shorthand && typeof shorthand === 'object') {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, value] of Object.entries(shorthand)) {
+        properties[key] = SchemaValidator.fromShorthand(value);
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+
+    return true;
+  }
+
+  /**
+   * Translate OpenAPI 3.0 schema dialect (`nullable`) into draft 2020-12
+   */
+  static fromOpenApi(schema: JsonSchema): JsonSchema {
+    if (typeof schema !== 'object' || schema === null) return schema;
+
+    const converted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'nullable') continue;
+
+      if (
+        SCHEMA_MAP_KEYWORDS.includes(key) &&
+        value &&
+        typeof value === 'object'
+      ) {
+        converted[key] = Object.fromEntries(
+          Object.entries(value).map(([name, sub]) => [
+            name,
+            SchemaValidator.fromOpenApi(sub as JsonSchema),
+          ])
+        );
+      } else if (SCHEMA_LIST_KEYWORDS.includes(key) && Array.isArray(value)) {
+        converted[key] = value.map((sub) => SchemaValidator.fromOpenApi(sub));
+      } else if (
+        SUBSCHEMA_KEYWORDS.includes(key) &&
+        value !== null &&
+        typeof value === 'object' &&
+        !Array.isArray(value)
+      ) {
+        converted[key] = SchemaValidator.fromOpenApi(value as JsonSchema);
+      } else {
+        converted[key] = value;
+      }
+    }
+
+    if (schema.nullable === true) {
+      if (typeof converted.type === 'string') {
+        converted.type = [converted.type, 'null'];
+      } else if (
+        Array.isArray(converted.type) &&
+        !converted.type.includes('null')
+      ) {
+        converted.type = [...converted.type, 'null'];
+      } else if (
+        Array.isArray(converted.enum) &&
+        !converted.enum.includes(null)
+      ) {
+        converted.enum = [...converted.enum, null];
+      }
+    }
+
+    return converted;
+  }
+
+  private compile(schema: JsonSchema | string): ValidateFunction {
+    if (typeof schema === 'string') {
+      const registered = this.ajv.getSchema(schema);
+      if (!registered) {
+        throw new Error(`Schema not registered: ${schema}`);
+      }
+      return registered;
+    }
+
+    if (typeof schema === 'boolean') {
+      return this.ajv.compile(schema);
+    }
+
+    let validateFn = this.compiled.get(schema);
+    if (!validateFn) {
+      validateFn = this.ajv.compile(
+        SchemaValidator.fromOpenApi(schema) as Record<string, unknown>
+      );
+      this.compiled.set(schema, validateFn);
+    }
+
+    return validateFn;
+  }
+
+  private toViolation(error: ErrorObject): SchemaViolation {
+    let path = error.instancePath;
+    let message = error.message || 'is invalid';
+
+    // Point required/additional property errors at the property itself
+    if (error.keyword === 'required') {
+      path = `${path}/${this.escapePointer(error.params.missingProperty)}`;
+      message = 'is required';
+    } else if (error.keyword === 'additionalProperties') {
+      path = `${path}/${this.escapePointer(error.params.additionalProperty)}`;
+      message = 'is not allowed';
+    } else if (error.keyword === 'enum') {
+      message = `must be one of ${JSON.stringify(error.params.allowedValues)}`;
+    }
+
+    return {
+      path,
+      keyword: error.keyword,
+      message,
+      params: error.params,
+    };
+  }
+
+  private escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
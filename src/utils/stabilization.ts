@@ -0,0 +1,119 @@
+// Stabilization profiles: everything VisualTesting does to make a page look
+// the same on every run before it takes a screenshot
+
+/** Text replaced in the page before capturing, e.g. times or order ids */
+export interface TextMask {
+  /** Regular expression, or its source; always applied globally */
+  pattern: RegExp | string;
+  replacement: string;
+  /** Only mask text inside these elements; the whole body by default */
+  selector?: string;
+}
+
+export interface StabilizationProfile {
+  /** What Date.now() and new Date() return; false leaves the clock alone */
+  freezeTime: string | number | false;
+  /** Seed for Math.random; false keeps the browser's own */
+  randomSeed: number | false;
+  disableAnimations: boolean;
+  /** Pause videos and audio at their first frame and stop canvas loops */
+  pauseMedia: boolean;
+  waitForFonts: boolean;
+  waitForImages: boolean;
+  waitForNetworkIdle: boolean;
+  hideCaret: boolean;
+  /** Selectors of elements made invisible, e.g. ads or avatars */
+  hide: string[];
+  textMasks: TextMask[];
+  /** Final pause for layout to settle after everything else */
+  settleMs: number;
+}
+
+/**
+ * A profile name, or overrides on top of one (`extends`, default "default")
+ */
+export type StabilizationSetting =
+  | string
+  | (Partial<StabilizationProfile> & { extends?: string });
+
+const DEFAULT_PROFILE: StabilizationProfile = {
+  freezeTime: '2024-01-15T12:00:00.000Z',
+  randomSeed: 42,
+  disableAnimations: true,
+  pauseMedia: true,
+  waitForFonts: true,
+  waitForImages: true,
+  waitForNetworkIdle: true,
+  hideCaret: true,
+  hide: [],
+  textMasks: [],
+  settleMs: 100,
+};
+
+const profiles = new Map<string, StabilizationProfile>([
+  ['default', DEFAULT_PROFILE],
+  // Also masks times, dates and relative times rendered from server data
+  [
+    'strict',
+    {
+      ...DEFAULT_PROFILE,
+      textMasks: [
+        {
+          pattern: /\b\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?\b/,
+          replacement: '2024-01-15',
+        },
+        {
+          pattern: /\b\d{1,2}:\d{2}(:\d{2})?(\s?[AaPp][Mm])?\b/,
+          replacement: '12:00',
+        },
+        {
+          pattern: /\b\d+ (second|minute|hour|day|week|month|year)s? ago\b/,
+          replacement: 'a while ago',
+        },
+      ],
+      settleMs: 300,
+    },
+  ],
+  // Capture the page exactly as it is
+  [
+    'none',
+    {
+      freezeTime: false,
+      randomSeed: false,
+      disableAnimations: false,
+      pauseMedia: false,
+      waitForFonts: false,
+      waitForImages: false,
+      waitForNetworkIdle: false,
+      hideCaret: false,
+      hide: [],
+      textMasks: [],
+      settleMs: 0,
+    },
+  ],
+]);
+
+/**
+ * Register or replace a named profile, e.g. one per product area
+ */
+export function registerStabilizationProfile(
+  name: string,
+  setting: StabilizationSetting
+): void {
+  profiles.set(name, resolveStabilization(setting));
+}
+
+export function resolveStabilization(
+  setting: StabilizationSetting = 'default'
+): StabilizationProfile {
+  const { extends: base = 'default', ...overrides } =
+    typeof setting === 'string' ? { extends: setting } : setting;
+  const profile = profiles.get(base);
+  if (!profile) {
+    throw new Error(
+      `Unknown stabilization profile "${base}"; known: ` +
+        [...profiles.keys()].join(', ')
+    );
+  }
+  return { ...profile, ...overrides };
+}
@@ -1,4 +1,10 @@
 import { Page, Locator } from '@playwright/test';
+import {
+  ApiMock,
+  MockResponder,
+  MockScenarioOptions,
+  MockStep,
+} from './api-mock';
 
 export class TestHelpers {
   constructor(private page: Page) {}
@@ -81,14 +87,20 @@ export class TestHelpers {
     urlPattern: string | RegExp,
     mockData: any,
     status = 200
-  ): Promise<void> {
-    await this.page.route(urlPattern, (route) => {
-      route.fulfill({
-        status,
-        contentType: 'application/json',
-        body: JSON.stringify(mockData),
-      });
-    });
+  ): Promise<ApiMock> {
+    return this.mockApiScenario(urlPattern, [{ status, json: mockData }]);
+  }
+
+  /**
+   * Mock API responses that change per call: the nth call gets the nth step
+   * and the last step repeats (or the steps loop)
+   */
+  async mockApiScenario(
+    urlPattern: string | RegExp,
+    steps: (MockStep | MockResponder)[],
+    options: MockScenarioOptions = {}
+  ): Promise<ApiMock> {
+    return new ApiMock(this.page, urlPattern, steps, options).install();
   }
 
   /**
@@ -0,0 +1,205 @@
+// Review of the last run's visual comparisons: approve or reject failed
+// screenshots and prune baselines nothing compares against anymore
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ComparisonRecord,
+  RunTestRef,
+  VISUAL_DIR,
+  latestComparisons,
+  readComparisons,
+  readRunSummary,
+} from './visual-testing';
+import { escapeHtml } from './visual-report';
+
+export class VisualBaselines {
+  constructor(private dir = VISUAL_DIR) {}
+
+  /**
+   * Failed comparisons of the last run that are still waiting for a decision
+   */
+  getPending(): ComparisonRecord[] {
+    return latestComparisons(readComparisons(this.dir)).filter(
+      (record) =>
+        record.status === 'failed' && fs.existsSync(record.actualPath)
+    );
+  }
+
+  /**
+   * Pending comparisons whose `<project>/<name>` matches one of the patterns;
+   * `*` matches any run of characters
+   */
+  find(patterns: string[]): ComparisonRecord[] {
+    const matchers = patterns.map(
+      (pattern) =>
+        new RegExp(
+          `^${pattern
+            .split('*')
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`
+        )
+    );
+    return this.getPending().filter((record) =>
+      matchers.some((matcher) => matcher.test(VisualBaselines.key(record)))
+    );
+  }
+
+  /**
+   * Make the actual screenshot the new baseline
+   */
+  approve(record: ComparisonRecord): void {
+    fs.mkdirSync(path.dirname(record.baselinePath), { recursive: true });
+    fs.copyFileSync(record.actualPath, record.baselinePath);
+    this.discard(record);
+  }
+
+  /**
+   * Keep the baseline and drop the actual screenshot and its diff
+   */
+  reject(record: ComparisonRecord): void {
+    this.discard(record);
+  }
+
+  /**
+   * Baselines of the projects that ran last time that no comparison used.
+   * Projects left out of the run are not touched. See getPruneBlockers()
+   * for runs that make live baselines look orphaned.
+   */
+  getOrphans(): string[] {
+    const records = readComparisons(this.dir);
+    const used = new Set(
+      records.map((record) => path.resolve(record.baselinePath))
+    );
+    const projects = this.comparedProjects();
+
+    return [...projects].flatMap((project) => {
+      const projectDir = path.join(this.dir, 'baseline', project);
+      if (!fs.existsSync(projectDir)) return [];
+      return fs
+        .readdirSync(projectDir)
+        .filter((file) => file.endsWith('.png'))
+        .map((file) => path.join(projectDir, file))
+        .filter((file) => !used.has(path.resolve(file)));
+    });
+  }
+
+  /**
+   * Why the last run cannot tell orphans apart: tests that failed, were
+   * skipped or filtered out never compared against their baselines
+   */
+  getPruneBlockers(): string[] {
+    const summary = readRunSummary(this.dir);
+    if (!summary) {
+      return ['the last run did not finish, or ran without its reporter'];
+    }
+
+    const projects = this.comparedProjects();
+    const inPrunedProjects = (tests: RunTestRef[]) =>
+      tests.filter((test) => projects.has(test.project));
+    const failed = inPrunedProjects(summary.failed);
+    const skipped = inPrunedProjects(summary.skipped);
+
+    return [
+      ...(summary.filters === 'unknown'
+        ? ['the last run was not started with `playwright test`, so its ' +
+            'filters are unknown']
+        : summary.filters.length > 0
+          ? [`the last run was filtered (${summary.filters.join(', ')})`]
+          : []),
+      ...(['interrupted', 'timedout'].includes(summary.status)
+        ? [`the last run was ${summary.status}`]
+        : []),
+      ...failed.map((test) => `failed: [${test.project}] ${test.title}`),
+      ...skipped.map((test) => `skipped: [${test.project}] ${test.title}`),
+    ];
+  }
+
+  /**
+   * Delete orphaned baselines; returns the deleted paths. Refuses while
+   * getPruneBlockers() reports anything, unless `force` is set.
+   */
+  prune(force = false): string[] {
+    const blockers = this.getPruneBlockers();
+    if (blockers.length > 0 && !force) {
+      throw new Error(
+        `Refusing to prune baselines because:\n${blockers
+          .map((blocker) => `  - ${blocker}`)
+          .join('\n')}\nRun the full suite again, or pass --force`
+      );
+    }
+
+    const orphans = this.getOrphans();
+    for (const file of orphans) {
+      fs.rmSync(file);
+    }
+    return orphans;
+  }
+
+  /**
+   * Page showing baseline, actual and diff next to each other
+   */
+  writeSideBySide(
+    records: ComparisonRecord[],
+    file = path.join(this.dir, 'side-by-side.html')
+  ): string {
+    const figure = (src: string, caption: string) => {
+      const relative = path.relative(path.dirname(file), src);
+      return (
+        `<figure><img src="${escapeHtml(relative)}" loading="lazy">` +
+        `<figcaption>${caption}</figcaption></figure>`
+      );
+    };
+    const rows = records.map(
+      (record) => `
+      <h2>${escapeHtml(VisualBaselines.key(record))}</h2>
+      <p>${escapeHtml(record.testFile)} › ${escapeHtml(record.testTitle)}
+        — ${record.diff?.diffPixels ?? '?'} pixels differ,
+        SSIM ${record.diff?.ssim.toFixed(4) ?? '?'}</p>
+      <div class="row">
+        ${figure(record.baselinePath, 'Baseline')}
+        ${figure(record.actualPath, 'Actual')}
+        ${figure(record.diffPath, 'Diff')}
+      </div>`
+    );
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Visual comparisons to review</title>
+  <style>
+    body { font-family: sans-serif; margin: 20px; }
+    .row { display: flex; gap: 12px; align-items: flex-start; }
+    figure { flex: 1; margin: 0; }
+    img { max-width: 100%; border: 1px solid #ccc; }
+    figcaption { text-align: center; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${records.length} visual comparison(s) to review</h1>
+  ${rows.join('\n')}
+</body>
+</html>
+`
+    );
+    return file;
+  }
+
+  /** `<project>/<name>`, how comparisons are addressed on the command line */
+  static key(record: ComparisonRecord): string {
+    return `${record.project}/${record.name}`;
+  }
+
+  private comparedProjects(): Set<string> {
+    return new Set(readComparisons(this.dir).map((record) => record.project));
+  }
+
+  private discard(record: ComparisonRecord): void {
+    fs.rmSync(record.actualPath, { force: true });
+    fs.rmSync(record.diffPath, { force: true });
+  }
+}
@@ -0,0 +1,301 @@
+// Visual review page: every comparison of the run grouped by test, viewport
+// and project, with slider, onion-skin and side-by-side views of failures
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ComparisonRecord,
+  VISUAL_DIR,
+  latestComparisons,
+} from './visual-testing';
+
+// Names compareWithViewport produces, e.g. `home-375x667-full-page`
+const VIEWPORT_NAME = /^(.*)-(\d+)x(\d+)-full-page$/;
+
+const STATUS_ICONS: Record<ComparisonRecord['status'], string> = {
+  passed: '✅',
+  failed: '❌',
+  missing: '🆕',
+  updated: '🔄',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class VisualReport {
+  private records: ComparisonRecord[];
+
+  constructor(records: ComparisonRecord[]) {
+    this.records = latestComparisons(records);
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  /**
+   * Write the page and copies of its images (under `visual/` next to it),
+   * so it keeps working after the screenshots folder is reset
+   */
+  write(file: string): string {
+    const imageDir = path.join(path.dirname(file), 'visual');
+    const image = (source: string): string | undefined => {
+      if (!fs.existsSync(source)) return undefined;
+      const copy = path.join(imageDir, path.relative(VISUAL_DIR, source));
+      fs.mkdirSync(path.dirname(copy), { recursive: true });
+      fs.copyFileSync(source, copy);
+      return path.relative(path.dirname(file), copy).split(path.sep).join('/');
+    };
+
+    const sections = [...this.groupByTest()].map(([test, records]) => {
+      const viewports = [...group(records, viewportLabel)].map(
+        ([viewport, inViewport]) => {
+          const projects = [...group(inViewport, (r) => r.project)].map(
+            ([project, inProject]) => `
+        <h4>${escapeHtml(project)}</h4>
+        ${this.matrices(inProject, image)}
+        ${inProject
+    .filter((record) => !record.cell || record.status !== 'passed')
+    .map((record) => this.card(record, image))
+    .join('')}`
+          );
+          return `
+      <h3>${escapeHtml(viewport)}</h3>${projects.join('')}`;
+        }
+      );
+      return `
+    <section>
+      <h2>${escapeHtml(test)}</h2>${viewports.join('')}
+    </section>`;
+    });
+
+    const failed = this.records.filter((r) => r.status === 'failed').length;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, page(this.records.length, failed, sections));
+    return file;
+  }
+
+  private groupByTest(): Map<string, ComparisonRecord[]> {
+    return group(
+      this.records,
+      (record) => `${record.testFile} › ${record.testTitle}`
+    );
+  }
+
+  private card(
+    record: ComparisonRecord,
+    image: (source: string) => string | undefined
+  ): string {
+    const key = escapeHtml(`${record.project}/${record.name}`);
+    const baseline = image(record.baselinePath);
+    const actual = image(record.actualPath);
+    const diff = image(record.diffPath);
+    const stats = record.diff
+      ? `${record.diff.diffPixels} px differ ` +
+        `(${(record.diff.diffRatio * 100).toFixed(2)}%), ` +
+        `SSIM ${record.diff.ssim.toFixed(4)}`
+      : '';
+
+    let body = baseline ? `<img src="${escapeHtml(baseline)}">` : '';
+    if (baseline && actual && diff) {
+      body = viewer(baseline, actual, diff);
+    }
+
+    return `
+        <div class="card ${record.status}" id="${key}">
+          <div class="title">
+            ${STATUS_ICONS[record.status]}
+            <a href="#${key}">${escapeHtml(record.name)}</a>
+            <span class="stats">${stats}</span>
+          </div>
+          ${this.viewportLinks(record)}
+          ${body}
+        </div>`;
+  }
+
+  // compareStates snapshots as one grid each: themes down, states across;
+  // cells that did not pass link to their card below the grid
+  private matrices(
+    records: ComparisonRecord[],
+    image: (source: string) => string | undefined
+  ): string {
+    const cells = records.filter((record) => record.cell);
+    return [...group(cells, (record) => record.cell?.matrix || '')]
+      .map(([matrix, inMatrix]) => {
+        const states = [...new Set(inMatrix.map((r) => r.cell?.state))];
+        const themes = [...new Set(inMatrix.map((r) => r.cell?.theme))];
+        const cell = (theme?: string, state?: string) => {
+          const record = inMatrix.find(
+            (r) => r.cell?.theme === theme && r.cell?.state === state
+          );
+          if (!record) return '<td></td>';
+          const src = image(record.actualPath) || image(record.baselinePath);
+          const thumbnail = src ? `<img src="${escapeHtml(src)}">` : '';
+          const key = escapeHtml(`${record.project}/${record.name}`);
+          return record.status === 'passed'
+            ? `<td class="passed">${thumbnail}</td>`
+            : `<td class="${record.status}"><a href="#${key}">` +
+                `${STATUS_ICONS[record.status]} ${thumbnail}</a></td>`;
+        };
+
+        return `
+        <table class="matrix">
+          <caption>${escapeHtml(matrix)}</caption>
+          <tr><th></th>${states
+    .map((state) => `<th>${escapeHtml(state || '')}</th>`)
+    .join('')}</tr>
+          ${themes
+    .map(
+      (theme) =>
+        `<tr><th>${escapeHtml(theme || '')}</th>${states
+          .map((state) => cell(theme, state))
+          .join('')}</tr>`
+    )
+    .join('\n          ')}
+        </table>`;
+      })
+      .join('');
+  }
+
+  // The same compareWithViewport comparison at its other viewports
+  private viewportLinks(record: ComparisonRecord): string {
+    const base = record.name.match(VIEWPORT_NAME)?.[1];
+    if (!base) return '';
+
+    const siblings = this.records.filter(
+      (other) =>
+        other.project === record.project &&
+        other.testFile === record.testFile &&
+        other.testTitle === record.testTitle &&
+        other.name.match(VIEWPORT_NAME)?.[1] === base
+    );
+    const links = siblings.map((other) => {
+      const [, , width, height] = other.name.match(VIEWPORT_NAME) || [];
+      const label = `${width}x${height}`;
+      return other === record
+        ? `<strong>${label}</strong>`
+        : `<a href="#${escapeHtml(`${other.project}/${other.name}`)}">` +
+            `${STATUS_ICONS[other.status]} ${label}</a>`;
+    });
+    return `<div class="viewports">${escapeHtml(base)}: ${links.join(
+      ' · '
+    )}</div>`;
+  }
+}
+
+function group<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const name = key(item);
+    groups.set(name, [...(groups.get(name) || []), item]);
+  }
+  return groups;
+}
+
+function viewportLabel(record: ComparisonRecord): string {
+  return record.viewport
+    ? `${record.viewport.width}x${record.viewport.height}`
+    : 'Unknown viewport';
+}
+
+function viewer(baseline: string, actual: string, diff: string): string {
+  const [b, a, d] = [baseline, actual, diff].map(escapeHtml);
+  const figure = (src: string, caption: string) =>
+    `<figure><img src="${src}"><figcaption>${caption}</figcaption></figure>`;
+  return `
+          <div class="viewer" data-mode="side">
+            <div class="modes">
+              <button data-mode="side">Side by side</button>
+              <button data-mode="slider">Slider</button>
+              <button data-mode="onion">Onion skin</button>
+            </div>
+            <div class="side">
+              ${figure(b, 'Baseline')}
+              ${figure(a, 'Actual')}
+              ${figure(d, 'Diff')}
+            </div>
+            <div class="stack slider">
+              <img src="${b}"><img class="top" src="${a}">
+              <input type="range" min="0" max="100" value="50">
+            </div>
+            <div class="stack onion">
+              <img src="${b}"><img class="top" src="${a}">
+              <input type="range" min="0" max="100" value="50">
+            </div>
+          </div>`;
+}
+
+function page(total: number, failed: number, sections: string[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Visual Review</title>
+  <style>
+    body { font-family: sans-serif; margin: 20px; background: #f5f5f5; }
+    section { background: white; border-radius: 8px; padding: 16px 24px;
+      margin-bottom: 20px; }
+    h2 { border-bottom: 1px solid #e0e0e0; padding-bottom: 8px; }
+    .card { border-left: 4px solid #28a745; padding: 8px 12px; margin: 8px 0; }
+    .card.failed { border-color: #dc3545; }
+    .card.missing, .card.updated { border-color: #ffc107; }
+    .card > img { max-width: 320px; border: 1px solid #ccc; }
+    .matrix { border-collapse: collapse; margin: 8px 0; }
+    .matrix caption { text-align: left; font-weight: bold; }
+    .matrix th, .matrix td { border: 1px solid #e0e0e0; padding: 6px;
+      text-align: center; vertical-align: middle; }
+    .matrix td img { max-width: 160px; max-height: 120px; display: block;
+      margin: 0 auto; }
+    .matrix td.failed { background: #fdecea; }
+    .matrix td.missing, .matrix td.updated { background: #fff8e1; }
+    body.failures-only .matrix { display: none; }
+    body.failures-only .card:not(.failed) { display: none; }
+    .stats, .viewports { color: #666; font-size: 0.9em; }
+    .modes button { margin: 8px 4px 8px 0; }
+    .side { display: flex; gap: 12px; }
+    .side figure { flex: 1; margin: 0; }
+    img { max-width: 100%; }
+    figcaption { text-align: center; color: #666; }
+    .stack { position: relative; display: inline-block; }
+    .stack .top { position: absolute; left: 0; top: 0; }
+    .stack input { display: block; width: 100%; }
+    .viewer .side, .viewer .stack { display: none; }
+    .viewer[data-mode="side"] .side { display: flex; }
+    .viewer[data-mode="slider"] .slider,
+    .viewer[data-mode="onion"] .onion { display: inline-block; }
+  </style>
+</head>
+<body>
+  <h1>Visual Review</h1>
+  <p>${total} comparison(s), ${failed} failed.
+    <label><input type="checkbox" id="failures-only"> Failures only</label>
+  </p>
+  ${sections.join('\n')}
+  <script>
+    document.getElementById('failures-only').onchange = (event) =>
+      document.body.classList.toggle('failures-only', event.target.checked);
+    document.querySelectorAll('.viewer').forEach((viewer) => {
+      viewer.querySelectorAll('.modes button').forEach((button) => {
+        button.onclick = () => (viewer.dataset.mode = button.dataset.mode);
+      });
+      const slider = viewer.querySelector('.slider');
+      const onion = viewer.querySelector('.onion');
+      const clip = (value) => (slider.querySelector('.top').style.clipPath =
+        'inset(0 ' + (100 - value) + '% 0 0)');
+      const fade = (value) =>
+        (onion.querySelector('.top').style.opacity = value / 100);
+      slider.querySelector('input').oninput = (e) => clip(e.target.value);
+      onion.querySelector('input').oninput = (e) => fade(e.target.value);
+      clip(50);
+      fade(50);
+    });
+  </script>
+</body>
+</html>
+`;
+}
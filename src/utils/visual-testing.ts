@@ -1,33 +1,327 @@
-import { Page, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { Locator, Page, TestInfo, test } from '@playwright/test';
+import {
+  ImageDiffOptions,
+  ImageDiffResult,
+  compareImages,
+} from './image-diff';
+import { decodePng, encodePng } from './png';
+import {
+  StabilizationProfile,
+  TextMask,
+  resolveStabilization,
+} from './stabilization';
+import { TestHelpers } from './test-helpers';
+
+type FrameCallback = Parameters<Window['requestAnimationFrame']>[0];
+
+declare global {
+  interface Window {
+    /** Animation frames held back by pauseMedia() until resumeFrames() */
+    __visualHeldFrames?: {
+      request: Window['requestAnimationFrame'];
+      cancel: Window['cancelAnimationFrame'];
+      callbacks: Map<number, FrameCallback>;
+    };
+  }
+}
+
+export interface ComparisonOptions extends ImageDiffOptions {
+  /** Most differing pixels allowed (default 100) */
+  maxDiffPixels?: number;
+  /** Most differing pixels allowed as a share of all pixels, 0 to 1 */
+  maxDiffRatio?: number;
+  /** Lowest SSIM score allowed, 0 to 1 */
+  minSsim?: number;
+}
+
+export type ComparisonStatus = 'passed' | 'failed' | 'missing' | 'updated';
+
+export interface ComparisonResult {
+  name: string;
+  status: ComparisonStatus;
+  baselinePath: string;
+  actualPath: string;
+  diffPath: string;
+  diff?: Omit<ImageDiffResult, 'diff'>;
+}
+
+export type ComponentState =
+  | 'default'
+  | 'hover'
+  | 'focus'
+  | 'active'
+  | 'disabled'
+  | 'error';
+
+export type ColorTheme = 'light' | 'dark' | 'high-contrast';
+
+export const COMPONENT_STATES: ComponentState[] = [
+  'default',
+  'hover',
+  'focus',
+  'active',
+  'disabled',
+  'error',
+];
+
+export const COLOR_THEMES: ColorTheme[] = ['light', 'dark', 'high-contrast'];
+
+/**
+ * Puts the element into a state; the returned function leaves it again
+ */
+export type StateSetter = (
+  element: Locator
+) => Promise<(() => Promise<void>) | void>;
+
+export interface StateMatrixOptions extends ComparisonOptions {
+  states?: ComponentState[];
+  themes?: ColorTheme[];
+  /** Replace how a state is reached, e.g. submitting a form for `error` */
+  setState?: Partial<Record<ComponentState, StateSetter>>;
+}
+
+/** Where a snapshot sits in a compareStates matrix */
+export interface MatrixCell {
+  matrix: string;
+  state: ComponentState;
+  theme: ColorTheme;
+}
+
+/** A comparison of the current run, as logged for the baselines CLI */
+export interface ComparisonRecord extends ComparisonResult {
+  project: string;
+  testFile: string;
+  testTitle: string;
+  viewport?: { width: number; height: number };
+  cell?: MatrixCell;
+}
+
+type MediaOptions = Parameters<Page['emulateMedia']>[0];
+
+const THEME_MEDIA: Record<ColorTheme, MediaOptions> = {
+  light: {
+    colorScheme: 'light',
+    contrast: 'no-preference',
+    forcedColors: 'none',
+  },
+  dark: {
+    colorScheme: 'dark',
+    contrast: 'no-preference',
+    forcedColors: 'none',
+  },
+  'high-contrast': {
+    colorScheme: 'light',
+    contrast: 'more',
+    forcedColors: 'active',
+  },
+};
+
+/** Baselines, failed actuals and their diffs live in <dir>/<kind>/<project> */
+export const VISUAL_DIR = 'screenshots';
+
+const COMPARISON_LOG = 'comparisons.jsonl';
+const RUN_SUMMARY = 'last-run.json';
+
+export interface RunTestRef {
+  project: string;
+  title: string;
+}
+
+/**
+ * How the last run ended, so pruning can tell whether every test compared
+ */
+export interface VisualRunSummary {
+  /** Playwright's overall status, e.g. `passed` or `interrupted` */
+  status: string;
+  /**
+   * Filters that left tests out, e.g. `--grep` or a spec path, or `unknown`
+   * when the run was not started with `playwright test`
+   */
+  filters: string[] | 'unknown';
+  failed: RunTestRef[];
+  skipped: RunTestRef[];
+}
+
+/** Folder of a project's baselines, actuals and diffs, as in the log */
+export function projectFolder(projectName: string): string {
+  return sanitize(projectName || 'default');
+}
+
+/**
+ * Drop the comparisons `rerun` selects from the log, with their actual and
+ * diff images, before a run compares them again. Other comparisons keep
+ * their pending actuals until they are approved or rejected.
+ */
+export function resetComparisons(
+  rerun: (record: ComparisonRecord) => boolean,
+  dir = VISUAL_DIR
+): void {
+  const log = path.join(dir, COMPARISON_LOG);
+  if (!fs.existsSync(log)) return;
+
+  const kept = readComparisons(dir).filter((record) => {
+    if (!rerun(record)) return true;
+    fs.rmSync(record.actualPath, { force: true });
+    fs.rmSync(record.diffPath, { force: true });
+    return false;
+  });
+  fs.writeFileSync(
+    log,
+    kept.map((record) => `${JSON.stringify(record)}\n`).join('')
+  );
+}
+
+/**
+ * Forget the last run's summary; only the reporter writes a new one, so
+ * pruning refuses after runs without it
+ */
+export function resetRunSummary(dir = VISUAL_DIR): void {
+  fs.rmSync(path.join(dir, RUN_SUMMARY), { force: true });
+}
+
+export function writeRunSummary(
+  summary: VisualRunSummary,
+  dir = VISUAL_DIR
+): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, RUN_SUMMARY),
+    JSON.stringify(summary, null, 2)
+  );
+}
+
+/**
+ * Summary of the last run, or undefined when it did not finish
+ */
+export function readRunSummary(dir = VISUAL_DIR): VisualRunSummary | undefined {
+  const file = path.join(dir, RUN_SUMMARY);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Every comparison of the last run, in the order they finished
+ */
+export function readComparisons(dir = VISUAL_DIR): ComparisonRecord[] {
+  const log = path.join(dir, COMPARISON_LOG);
+  if (!fs.existsSync(log)) return [];
+  return fs
+    .readFileSync(log, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Last record of each comparison; retries log the same comparison again
+ */
+export function latestComparisons(
+  records: ComparisonRecord[]
+): ComparisonRecord[] {
+  const byKey = new Map<string, ComparisonRecord>();
+  for (const record of records) {
+    byKey.set(`${record.project}/${record.name}`, record);
+  }
+  return [...byKey.values()];
+}
 
 export class VisualTesting {
-  constructor(private page: Page) {}
+  constructor(
+    private page: Page,
+    readonly stabilization: StabilizationProfile = resolveStabilization()
+  ) {}
+
+  /**
+   * Freeze the clock and seed Math.random as the profile asks. Pages loaded
+   * afterwards are covered from their first script on, so the visualTesting
+   * fixture calls this before the test navigates.
+   */
+  async prepare(): Promise<void> {
+    const { freezeTime, randomSeed } = this.stabilization;
+
+    if (freezeTime !== false) {
+      await this.page.clock.setFixedTime(freezeTime);
+    }
+    if (randomSeed !== false) {
+      await this.page.addInitScript(seedRandom, randomSeed);
+      // Also the current document, which page.setContent() writes into
+      await this.page.evaluate(seedRandom, randomSeed);
+    }
+  }
+
+  /**
+   * Apply the stabilization profile to the page as it is now; every compare
+   * method calls this before taking its screenshot, and resumeMedia() once
+   * it is done
+   */
+  async stabilize(
+    options: { animations?: 'disabled' | 'allow' } = {}
+  ): Promise<void> {
+    const profile = this.stabilization;
+    const animations =
+      options.animations ?? (profile.disableAnimations ? 'disabled' : 'allow');
+
+    if (profile.waitForNetworkIdle) {
+      await this.page.waitForLoadState('networkidle');
+    }
+    if (animations === 'disabled') {
+      await this.disableAnimations();
+    }
+    if (profile.pauseMedia) {
+      await this.page.evaluate(pauseMedia);
+    }
+    if (profile.waitForFonts) {
+      await this.page.evaluate(() => document.fonts.ready.then(() => {}));
+    }
+    if (profile.waitForImages) {
+      await this.waitForImages();
+    }
+    if (profile.hide.length > 0) {
+      await this.hideDynamicContent(profile.hide);
+    }
+    if (profile.textMasks.length > 0) {
+      await this.page.evaluate(
+        maskText,
+        profile.textMasks.map(serializeTextMask)
+      );
+    }
+    if (profile.settleMs > 0) {
+      await this.page.waitForTimeout(profile.settleMs);
+    }
+  }
+
+  /**
+   * Let animation frames held back by stabilize() run again, so canvas
+   * loops carry on after the capture
+   */
+  async resumeMedia(): Promise<void> {
+    if (this.stabilization.pauseMedia && !this.page.isClosed()) {
+      await this.page.evaluate(resumeFrames);
+    }
+  }
 
   /**
    * Compare full page screenshot
    */
   async compareFullPage(
     testName: string,
-    options?: {
-      threshold?: number;
-      maxDiffPixels?: number;
+    options?: ComparisonOptions & {
       animations?: 'disabled' | 'allow';
     }
   ): Promise<void> {
-    // Disable animations for consistent screenshots
-    if (options?.animations === 'disabled') {
-      await this.disableAnimations();
-    }
-
-    // Wait for page to be stable
-    await this.page.waitForLoadState('networkidle');
-    await this.page.waitForTimeout(1000);
+    try {
+      await this.stabilize({ animations: options?.animations });
 
-    await expect(this.page).toHaveScreenshot(`${testName}-full-page.png`, {
-      threshold: options?.threshold || 0.2,
-      maxDiffPixels: options?.maxDiffPixels || 100,
-      fullPage: true,
-    });
+      await this.compareScreenshot(
+        `${testName}-full-page`,
+        await this.page.screenshot({ fullPage: true, caret: this.caret() }),
+        { threshold: 0.2, ...options }
+      );
+    } finally {
+      await this.resumeMedia();
+    }
   }
 
   /**
@@ -36,9 +330,7 @@ export class VisualTesting {
   async compareElement(
     selector: string,
     testName: string,
-    options?: {
-      threshold?: number;
-      maxDiffPixels?: number;
+    options?: ComparisonOptions & {
       mask?: string[];
     }
   ): Promise<void> {
@@ -50,29 +342,171 @@ export class VisualTesting {
       options?.mask?.map((maskSelector) => this.page.locator(maskSelector)) ||
       [];
 
-    await expect(element).toHaveScreenshot(`${testName}-element.png`, {
-      threshold: options?.threshold || 0.2,
-      maxDiffPixels: options?.maxDiffPixels || 100,
-      mask: maskLocators,
-    });
+    try {
+      await this.stabilize();
+
+      await this.compareScreenshot(
+        `${testName}-element`,
+        await element.screenshot({ mask: maskLocators, caret: this.caret() }),
+        { threshold: 0.2, ...options }
+      );
+    } finally {
+      await this.resumeMedia();
+    }
   }
 
   /**
    * Compare multiple elements
    */
-  async compareElements(selectors: string[], testName: string): Promise<void> {
-    for (let i = 0; i < selectors.length; i++) {
-      const selector = selectors[i];
-      const element = this.page.locator(selector);
-      await element.waitFor({ state: 'visible' });
-
-      await expect(element).toHaveScreenshot(
-        `${testName}-element-${i + 1}.png`,
-        {
-          threshold: 0.2,
-        }
+  async compareElements(
+    selectors: string[],
+    testName: string,
+    options?: ComparisonOptions
+  ): Promise<void> {
+    try {
+      await this.stabilize();
+
+      for (let i = 0; i < selectors.length; i++) {
+        const selector = selectors[i];
+        const element = this.page.locator(selector);
+        await element.waitFor({ state: 'visible' });
+
+        await this.compareScreenshot(
+          `${testName}-element-${i + 1}`,
+          await element.screenshot({ caret: this.caret() }),
+          { threshold: 0.2, ...options }
+        );
+      }
+    } finally {
+      await this.resumeMedia();
+    }
+  }
+
+  /**
+   * Compare a screenshot with its baseline in screenshots/baseline. On a
+   * mismatch the actual image and a diff are written next to it and attached
+   * to the test. A missing baseline is written from the screenshot and fails
+   * the test, like Playwright's own snapshots; `--update-snapshots` accepts
+   * the new screenshot instead.
+   */
+  async compareScreenshot(
+    name: string,
+    screenshot: Buffer,
+    options: ComparisonOptions = {},
+    cell?: MatrixCell
+  ): Promise<ComparisonResult> {
+    const testInfo = test.info();
+    const project = projectFolder(testInfo.project.name);
+    const file = path.join(project, `${sanitize(name)}.png`);
+    const result: ComparisonResult = {
+      name,
+      status: 'passed',
+      baselinePath: path.join(VISUAL_DIR, 'baseline', file),
+      actualPath: path.join(VISUAL_DIR, 'actual', file),
+      diffPath: path.join(VISUAL_DIR, 'diff', file),
+    };
+
+    try {
+      await this.check(result, screenshot, options, testInfo);
+      return result;
+    } finally {
+      appendComparison({
+        ...result,
+        project,
+        testFile: path.relative(process.cwd(), testInfo.file),
+        testTitle: testInfo.titlePath.slice(1).join(' › '),
+        viewport: this.page.viewportSize() ?? undefined,
+        cell,
+      });
+    }
+  }
+
+  // Sets result.status, writing and attaching files as needed
+  private async check(
+    result: ComparisonResult,
+    screenshot: Buffer,
+    options: ComparisonOptions,
+    testInfo: TestInfo
+  ): Promise<void> {
+    const { name } = result;
+    const update = testInfo.config.updateSnapshots;
+    const accept = update === 'all' || update === 'changed';
+
+    // Leftovers of an earlier failed run
+    fs.rmSync(result.actualPath, { force: true });
+    fs.rmSync(result.diffPath, { force: true });
+
+    if (!fs.existsSync(result.baselinePath)) {
+      if (update !== 'none') {
+        writeFile(result.baselinePath, screenshot);
+      }
+      if (accept) {
+        result.status = 'updated';
+        return;
+      }
+      result.status = 'missing';
+      throw new Error(
+        `No baseline for "${name}" at ${result.baselinePath}` +
+          (update !== 'none' ? '; wrote the actual screenshot as baseline' : '')
       );
     }
+
+    const baseline = fs.readFileSync(result.baselinePath);
+    const { diff, ...stats } = compareImages(
+      decodePng(baseline),
+      decodePng(screenshot),
+      options
+    );
+    result.diff = stats;
+
+    const failures: string[] = [];
+    if (stats.sizeMismatch) {
+      failures.push('size differs');
+    }
+    if (stats.diffPixels > (options.maxDiffPixels ?? 100)) {
+      failures.push(`${stats.diffPixels} pixels differ`);
+    }
+    if (
+      options.maxDiffRatio !== undefined &&
+      stats.diffRatio > options.maxDiffRatio
+    ) {
+      failures.push(`${(stats.diffRatio * 100).toFixed(2)}% of pixels differ`);
+    }
+    if (options.minSsim !== undefined && stats.ssim < options.minSsim) {
+      failures.push(`SSIM ${stats.ssim.toFixed(4)} < ${options.minSsim}`);
+    }
+
+    if (update === 'all' || (accept && failures.length > 0)) {
+      writeFile(result.baselinePath, screenshot);
+      result.status = 'updated';
+      return;
+    }
+    if (failures.length === 0) {
+      return;
+    }
+
+    result.status = 'failed';
+    writeFile(result.actualPath, screenshot);
+    writeFile(result.diffPath, encodePng(diff));
+    // Suffixes the HTML report recognises to show its image diff viewer
+    await testInfo.attach(`${name}-expected.png`, {
+      path: result.baselinePath,
+      contentType: 'image/png',
+    });
+    await testInfo.attach(`${name}-actual.png`, {
+      path: result.actualPath,
+      contentType: 'image/png',
+    });
+    await testInfo.attach(`${name}-diff.png`, {
+      path: result.diffPath,
+      contentType: 'image/png',
+    });
+
+    throw new Error(
+      `Screenshot "${name}" differs from its baseline: ` +
+        `${failures.join(', ')} (SSIM ${stats.ssim.toFixed(4)}). ` +
+        `See ${result.diffPath}`
+    );
   }
 
   /**
@@ -105,12 +539,15 @@ export class VisualTesting {
   }
 
   /**
-   * Hide dynamic content for consistent screenshots
+   * Hide dynamic content for consistent screenshots; selectors that match
+   * nothing are skipped
    */
   async hideDynamicContent(selectors: string[]): Promise<void> {
     for (const selector of selectors) {
-      await this.page.locator(selector).evaluate((el) => {
-        (el as HTMLElement).style.visibility = 'hidden';
+      await this.page.locator(selector).evaluateAll((elements) => {
+        elements.forEach((el) => {
+          (el as HTMLElement).style.visibility = 'hidden';
+        });
       });
     }
   }
@@ -122,8 +559,8 @@ export class VisualTesting {
     testName: string,
     viewport: { width: number; height: number }
   ): Promise<void> {
+    // compareFullPage stabilizes the page again at the new size
     await this.page.setViewportSize(viewport);
-    await this.page.waitForTimeout(1000); // Allow for responsive changes
     await this.compareFullPage(
       `${testName}-${viewport.width}x${viewport.height}`
     );
@@ -140,4 +577,259 @@ export class VisualTesting {
       await this.compareWithViewport(testName, viewport);
     }
   }
+
+  /**
+   * Snapshot an element in every state and color theme, named
+   * `<testName>-<theme>-<state>`. All cells are compared before failing,
+   * and the visual review report shows them as one grid.
+   */
+  async compareStates(
+    selector: string,
+    testName: string,
+    options: StateMatrixOptions = {}
+  ): Promise<ComparisonResult[]> {
+    const element = this.page.locator(selector);
+    await element.waitFor({ state: 'visible' });
+
+    const results: ComparisonResult[] = [];
+    const failures: string[] = [];
+    const originalMedia = await this.currentMedia();
+
+    try {
+      for (const theme of options.themes ?? COLOR_THEMES) {
+        await this.page.emulateMedia(THEME_MEDIA[theme]);
+        await this.stabilize();
+
+        for (const state of options.states ?? COMPONENT_STATES) {
+          await this.resetInteraction();
+          const setState = options.setState?.[state] ?? this.stateSetter(state);
+          const leave = await setState(element);
+          try {
+            results.push(
+              await this.compareScreenshot(
+                `${testName}-${theme}-${state}`,
+                await element.screenshot({ caret: this.caret() }),
+                { threshold: 0.2, ...options },
+                { matrix: testName, state, theme }
+              )
+            );
+          } catch (error) {
+            failures.push(`${theme}/${state}: ${(error as Error).message}`);
+          } finally {
+            if (leave) await leave();
+          }
+        }
+      }
+    } finally {
+      await this.page.emulateMedia(originalMedia);
+      await this.resetInteraction();
+      await this.resumeMedia();
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length} snapshot(s) of state matrix "${testName}" ` +
+          `failed:\n${failures.join('\n')}`
+      );
+    }
+    return results;
+  }
+
+  // Built-in ways into each state, using the same interactions as a user
+  private stateSetter(state: ComponentState): StateSetter {
+    switch (state) {
+    case 'hover':
+      return (element) => new TestHelpers(this.page).hoverElement(element);
+    case 'focus':
+      return async (element) => {
+        // A key press first makes browsers show the keyboard focus ring
+        await this.page.keyboard.press('Shift');
+        await element.focus();
+      };
+    case 'active':
+      return async (element) => {
+        await element.hover();
+        await this.page.mouse.down();
+        // Releasing elsewhere ends the press without clicking
+        return async () => {
+          await this.page.mouse.move(0, 0);
+          await this.page.mouse.up();
+        };
+      };
+    case 'disabled':
+      return (element) =>
+        this.setAttributes(element, { disabled: '', 'aria-disabled': 'true' });
+    case 'error':
+      return (element) =>
+        this.setAttributes(element, { 'aria-invalid': 'true' });
+    default:
+      return async () => {};
+    }
+  }
+
+  // Set attributes and return a function that restores their old values
+  private async setAttributes(
+    element: Locator,
+    attributes: Record<string, string>
+  ): Promise<() => Promise<void>> {
+    const previous = await element.evaluate((el, attrs) => {
+      const old: Record<string, string | null> = {};
+      for (const [name, value] of Object.entries(attrs)) {
+        old[name] = el.getAttribute(name);
+        el.setAttribute(name, value);
+      }
+      return old;
+    }, attributes);
+
+    return async () => {
+      await element.evaluate((el, old) => {
+        for (const [name, value] of Object.entries(old)) {
+          if (value === null) el.removeAttribute(name);
+          else el.setAttribute(name, value);
+        }
+      }, previous);
+    };
+  }
+
+  private async resetInteraction(): Promise<void> {
+    await this.page.mouse.move(0, 0);
+    await this.page.evaluate(() =>
+      (document.activeElement as HTMLElement | null)?.blur()
+    );
+  }
+
+  // Media features in effect now, so compareStates can restore them
+  private async currentMedia(): Promise<MediaOptions> {
+    return this.page.evaluate(() => ({
+      colorScheme: matchMedia('(prefers-color-scheme: dark)').matches
+        ? ('dark' as const)
+        : ('light' as const),
+      contrast: matchMedia('(prefers-contrast: more)').matches
+        ? ('more' as const)
+        : ('no-preference' as const),
+      forcedColors: matchMedia('(forced-colors: active)').matches
+        ? ('active' as const)
+        : ('none' as const),
+    }));
+  }
+
+  private caret(): 'hide' | 'initial' {
+    return this.stabilization.hideCaret ? 'hide' : 'initial';
+  }
+}
+
+// The functions below run in the browser, so they must not use anything
+// from this module
+
+function seedRandom(seed: number): void {
+  let state = seed >>> 0;
+  // mulberry32, as DataGenerator uses
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+async function pauseMedia(): Promise<void> {
+  // Canvas animations draw from requestAnimationFrame; hold new frames back
+  // until resumeFrames(), so the loops pick up again after the capture
+  if (!window.__visualHeldFrames) {
+    const held = {
+      request: window.requestAnimationFrame,
+      cancel: window.cancelAnimationFrame,
+      callbacks: new Map<number, FrameCallback>(),
+    };
+    let nextId = -1;
+    window.__visualHeldFrames = held;
+    window.requestAnimationFrame = (callback) => {
+      held.callbacks.set(nextId, callback);
+      return nextId--;
+    };
+    window.cancelAnimationFrame = (id) => {
+      if (!held.callbacks.delete(id)) held.cancel.call(window, id);
+    };
+  }
+
+  const media = Array.from(
+    document.querySelectorAll<HTMLMediaElement>('video, audio')
+  );
+  await Promise.all(
+    media.map((element) => {
+      element.pause();
+      element.currentTime = 0;
+      return new Promise<void>((resolve) => {
+        if (!element.seeking) return resolve();
+        element.addEventListener('seeked', () => resolve(), { once: true });
+        setTimeout(resolve, 2000);
+      });
+    })
+  );
+}
+
+function resumeFrames(): void {
+  const held = window.__visualHeldFrames;
+  if (!held) return;
+
+  delete window.__visualHeldFrames;
+  window.requestAnimationFrame = held.request;
+  window.cancelAnimationFrame = held.cancel;
+  held.callbacks.forEach((callback) => window.requestAnimationFrame(callback));
+}
+
+interface SerializedTextMask {
+  source: string;
+  flags: string;
+  replacement: string;
+  selector?: string;
+}
+
+function maskText(masks: SerializedTextMask[]): void {
+  for (const mask of masks) {
+    const pattern = new RegExp(mask.source, mask.flags);
+    const roots = mask.selector
+      ? Array.from(document.querySelectorAll(mask.selector))
+      : [document.body];
+
+    for (const root of roots) {
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const text = node.textContent || '';
+        const masked = text.replace(pattern, mask.replacement);
+        if (masked !== text) node.textContent = masked;
+      }
+    }
+  }
+}
+
+// RegExp objects can't be passed to the browser, so send source and flags
+function serializeTextMask(mask: TextMask): SerializedTextMask {
+  const pattern =
+    typeof mask.pattern === 'string' ? new RegExp(mask.pattern) : mask.pattern;
+  return {
+    source: pattern.source,
+    flags: pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+    replacement: mask.replacement,
+    selector: mask.selector,
+  };
+}
+
+function sanitize(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-');
+}
+
+function writeFile(file: string, data: Buffer): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+}
+
+// One line per comparison, appended so parallel workers don't clash
+function appendComparison(record: ComparisonRecord): void {
+  fs.mkdirSync(VISUAL_DIR, { recursive: true });
+  fs.appendFileSync(
+    path.join(VISUAL_DIR, COMPARISON_LOG),
+    `${JSON.stringify(record)}\n`
+  );
 }
@@ -0,0 +1,220 @@
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import {
+  ApiKeyAuth,
+  CookieSessionAuth,
+  OAuth2ClientCredentialsAuth,
+  OAuth2RefreshTokenAuth,
+  PasswordLoginAuth,
+  clearAuthCache,
+} from '../../src/utils/auth-providers';
+import { MockServer } from '../../src/utils/mock-server';
+
+// Runs against its own mock server, so it needs no backend
+test.describe('Auth Providers', () => {
+  let server: MockServer;
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    server = new MockServer([
+      {
+        method: 'GET',
+        path: '/ping',
+        query: { api_key: 'secret' },
+        body: { ok: true },
+      },
+      {
+        method: 'POST',
+        path: '/oauth/token',
+        requestBody: { grant_type: 'client_credentials', client_id: 'app' },
+        body: { access_token: 'client-token', expires_in: 3600 },
+      },
+      {
+        method: 'POST',
+        path: '/oauth/token',
+        requestBody: { grant_type: 'client_credentials' },
+        body: { token_type: 'Bearer' },
+      },
+      // Each refresh token is good once and rotated
+      {
+        method: 'POST',
+        path: '/oauth/token',
+        requestBody: { grant_type: 'refresh_token', refresh_token: 'rt-1' },
+        body: { access_token: 'stale-token', refresh_token: 'rt-2' },
+      },
+      {
+        method: 'POST',
+        path: '/oauth/token',
+        requestBody: { grant_type: 'refresh_token', refresh_token: 'rt-2' },
+        body: { access_token: 'fresh-token', refresh_token: 'rt-3' },
+      },
+      {
+        method: 'POST',
+        path: '/auth/login',
+        sequence: [
+          { body: { token: 'stale-token' } },
+          { body: { token: 'fresh-token' } },
+        ],
+      },
+      {
+        method: 'POST',
+        path: '/auth/session',
+        headers: { 'Set-Cookie': 'sid=session-1; Path=/; HttpOnly' },
+        body: { ok: true },
+      },
+      {
+        method: 'GET',
+        path: '/me',
+        requestHeaders: { authorization: 'Bearer client-token' },
+        body: { name: 'service' },
+      },
+      {
+        method: 'GET',
+        path: '/me',
+        requestHeaders: { authorization: 'Bearer fresh-token' },
+        body: { name: 'user' },
+      },
+      {
+        method: 'GET',
+        path: '/me',
+        requestHeaders: { cookie: 'sid=session-1' },
+        body: { name: 'session' },
+      },
+      { method: 'GET', path: '/me', status: 401, body: { error: 'expired' } },
+    ]);
+    baseURL = await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    clearAuthCache();
+  });
+
+  const calls = (path: string) =>
+    server.getRequests().filter((logged) => logged.path === path).length;
+
+  test('query API key keeps the host of absolute URLs', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext();
+    const apiTesting = new ApiTesting(
+      request,
+      new ApiKeyAuth({ key: 'secret', in: 'query' })
+    );
+
+    const body = await apiTesting.get(`${baseURL}/ping?page=2`, {
+      params: { sort: 'name' },
+      expectedStatus: 200,
+    });
+
+    expect(body).toEqual({ ok: true });
+    expect(server.getRequests()[0].query).toEqual({
+      page: '2',
+      sort: 'name',
+      api_key: 'secret',
+    });
+    await request.dispose();
+  });
+
+  test('client credentials token is fetched once and reused', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(
+      request,
+      new OAuth2ClientCredentialsAuth({
+        tokenUrl: '/oauth/token',
+        clientId: 'app',
+        clientSecret: 'shh',
+      })
+    );
+
+    expect(await apiTesting.get('/me')).toEqual({ name: 'service' });
+    expect(await apiTesting.get('/me')).toEqual({ name: 'service' });
+    expect(calls('/oauth/token')).toBe(1);
+    await request.dispose();
+  });
+
+  test('token response without access_token fails clearly', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(
+      request,
+      new OAuth2ClientCredentialsAuth({
+        tokenUrl: '/oauth/token',
+        clientId: 'other-app',
+        clientSecret: 'shh',
+      })
+    );
+
+    await expect(apiTesting.get('/me')).rejects.toThrow(
+      'Client credentials grant response has no "access_token" field'
+    );
+    expect(calls('/me')).toBe(0);
+    await request.dispose();
+  });
+
+  test('refresh token grant rotates the refresh token after a 401', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(
+      request,
+      new OAuth2RefreshTokenAuth({
+        tokenUrl: '/oauth/token',
+        refreshToken: 'rt-1',
+      })
+    );
+
+    const response = await apiTesting.getResponse('/me');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ name: 'user' });
+    expect(calls('/oauth/token')).toBe(2);
+    await request.dispose();
+  });
+
+  test('401 logs in again once and retries the request', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(
+      request,
+      new PasswordLoginAuth({ username: 'relogin', password: 'secret' })
+    );
+
+    const response = await apiTesting.getResponse('/me');
+
+    expect(response.status).toBe(200);
+    expect(response.request.headers.Authorization).toBe('Bearer fresh-token');
+    expect(calls('/auth/login')).toBe(2);
+    expect(calls('/me')).toBe(2);
+    await request.dispose();
+  });
+
+  test('cookie session sends the cookies set at login', async ({
+    playwright,
+  }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(
+      request,
+      new CookieSessionAuth({
+        username: 'session-user',
+        password: 'secret',
+        endpoint: '/auth/session',
+      })
+    );
+
+    const response = await apiTesting.getResponse('/me');
+
+    expect(response.body).toEqual({ name: 'session' });
+    expect(response.request.headers.Cookie).toBe('sid=session-1');
+    expect(calls('/auth/session')).toBe(1);
+    await request.dispose();
+  });
+});
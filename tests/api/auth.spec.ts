@@ -1,42 +1,65 @@
 import { test, expect } from '../../src/base/base-test';
+import {
+  loadTable,
+  rowDetails,
+  rowSkipReason,
+  rowTitle,
+} from '../../src/utils/data-driven';
+import { PasswordLoginAuth } from '../../src/utils/auth-providers';
+import authSchema from './schemas/auth.schema.json';
+
+interface LoginCase {
+  name: string;
+  username: string;
+  password: string;
+  expectedStatus: number;
+  error: string;
+}
 
 test.describe('Authentication API Tests', () => {
   // let authToken: string;
 
-  test('POST /auth/login - successful login', async ({ apiTesting }) => {
-    const response = await apiTesting.post(
+  // One test per row; add cases to the CSV without touching this file
+  loadTable<LoginCase>('data/login-cases.csv', __dirname).forEach(
+    (row, index) => {
+      const register = rowSkipReason(row) ? test.skip : test;
+
+      register(
+        rowTitle('POST /auth/login - {{name}}', row, index),
+        rowDetails(row),
+        async ({ apiTesting }) => {
+          const response = await apiTesting.post(
+            '/auth/login',
+            { username: row.username, password: row.password },
+            { expectedStatus: row.expectedStatus }
+          );
+
+          if (row.error) {
+            expect(response.error).toContain(row.error);
+          } else {
+            expect(response).toHaveProperty('token');
+            expect(response.user).toHaveProperty('id');
+            expect(response.user).toHaveProperty('email');
+          }
+        }
+      );
+    }
+  );
+
+  test('POST /auth/login - response metadata', async ({ apiTesting }) => {
+    const response = await apiTesting.postResponse<{ token: string }>(
       '/auth/login',
       {
         username: 'testuser@example.com',
         password: 'testpassword123',
-      },
-      {
-        expectedStatus: 200,
-      }
-    );
-
-    expect(response).toHaveProperty('token');
-    expect(response).toHaveProperty('user');
-    expect(response.user).toHaveProperty('id');
-    expect(response.user).toHaveProperty('email');
-
-    // authToken = response.token;
-  });
-
-  test('POST /auth/login - invalid credentials', async ({ apiTesting }) => {
-    const response = await apiTesting.post(
-      '/auth/login',
-      {
-        username: 'invalid@example.com',
-        password: 'wrongpassword',
-      },
-      {
-        expectedStatus: 401,
       }
     );
 
-    expect(response).toHaveProperty('error');
-    expect(response.error).toContain('Invalid credentials');
+    expect(response.status).toBe(200);
+    expect(response.header('Content-Type')).toContain('application/json');
+    expect(response.body.token).toBeTruthy();
+    expect(response.duration).toBeLessThan(1000);
+    expect(response.request.method).toBe('POST');
   });
 
   test('POST /auth/register - successful registration', async ({
@@ -160,16 +183,45 @@ test.describe('Authentication API Tests', () => {
       password: 'testpassword123',
     });
 
-    const expectedSchema = {
-      token: 'string',
-      user: {
-        id: 'string',
-        username: 'string',
-        email: 'string',
-        createdAt: 'string',
+    apiTesting.registerSchema(authSchema);
+    await apiTesting.validateSchema(
+      response,
+      'auth.schema.json#/$defs/loginResponse'
+    );
+  });
+
+  test('Schema validation - error response', async ({ apiTesting }) => {
+    const response = await apiTesting.post(
+      '/auth/login',
+      {
+        username: 'invalid@example.com',
+        password: 'wrongpassword',
       },
-    };
+      {
+        expectedStatus: 401,
+      }
+    );
+
+    apiTesting.registerSchema(authSchema);
+    await apiTesting.validateSchema(response, 'auth.schema.json#/$defs/error');
+  });
+});
+
+test.describe('Authenticated API Tests', () => {
+  test.use({
+    apiAuth: new PasswordLoginAuth({
+      username: 'testuser@example.com',
+      password: 'testpassword123',
+    }),
+  });
+
+  test('GET /auth/profile - token from auth provider', async ({
+    apiTesting,
+  }) => {
+    const response = await apiTesting.getResponse('/auth/profile');
 
-    await apiTesting.validateSchema(response, expectedSchema);
+    expect(response.status).toBe(200);
+    expect(response.request.headers.Authorization).toMatch(/^Bearer /);
+    expect(response.body).toHaveProperty('email');
   });
 });
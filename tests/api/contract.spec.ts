@@ -0,0 +1,20 @@
+import { test } from '../../src/base/base-test';
+import {
+  OpenApiContract,
+  registerContractTests,
+} from '../../src/utils/openapi-contract';
+
+// Generated from the spec at OPENAPI_SPEC, e.g. OPENAPI_SPEC=./openapi.yaml
+const specPath = process.env.OPENAPI_SPEC;
+
+test.describe('OpenAPI Contract Tests', () => {
+  test.skip(!specPath, 'OPENAPI_SPEC is not set');
+
+  if (specPath) {
+    registerContractTests(test, OpenApiContract.fromFile(specPath), {
+      params: {
+        id: process.env.OPENAPI_EXAMPLE_ID || '1',
+      },
+    });
+  }
+});
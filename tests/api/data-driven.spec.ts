@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '../../src/base/base-test';
+import {
+  loadTable,
+  rowDetails,
+  rowTitle,
+} from '../../src/utils/data-driven';
+
+test.describe('Data-Driven Tables', () => {
+  test('fills title placeholders from the row', () => {
+    const row = { name: 'valid', user: { role: 'admin' }, tags: ['a', 'b'] };
+
+    expect(rowTitle('login as {{user.role}} ({{name}})', row, 0)).toBe(
+      'login as admin (valid)'
+    );
+    expect(rowTitle('tags {{tags}}', row, 0)).toBe('tags ["a","b"]');
+    expect(rowTitle('login', row, 0)).toBe('login - valid');
+    expect(rowTitle('login', {}, 2)).toBe('login - row 3');
+  });
+
+  test('fails on a placeholder the row has no value for', () => {
+    const row = { user: {} };
+
+    expect(() => rowTitle('login as {{user.role}}', row, 1)).toThrow(
+      'Row 2 has no value for {{user.role}} in "login as {{user.role}}"'
+    );
+  });
+
+  test('resolves table paths against the given directory', () => {
+    const rows = loadTable('data/login-cases.csv', __dirname);
+
+    expect(rows.length).toBeGreaterThan(0);
+    expect(() =>
+      loadTable('data/login-cases.csv', path.dirname(__dirname))
+    ).toThrow('Data table not found');
+  });
+
+  test('coerces unquoted CSV cells and keeps quoted ones as strings', () => {
+    const file = test.info().outputPath('cases.csv');
+    fs.writeFileSync(
+      file,
+      'password,pin,active,limit,zip,meta\n' +
+        '"123456",42,true,null,01234,"{""a"":1}"\n' +
+        '"true","","false",1.5,"7",[1]\n'
+    );
+
+    expect(loadTable(file)).toEqual([
+      {
+        password: '123456',
+        pin: 42,
+        active: true,
+        limit: null,
+        zip: '01234',
+        meta: '{"a":1}',
+      },
+      {
+        password: 'true',
+        pin: '',
+        active: 'false',
+        limit: 1.5,
+        zip: '7',
+        meta: [1],
+      },
+    ]);
+  });
+
+  test('turns tags and skip columns into test details', () => {
+    expect(rowDetails({ tags: 'smoke, regression' })).toEqual({
+      tag: ['@smoke', '@regression'],
+      annotation: [],
+    });
+    expect(rowDetails({ tags: ['@slow'], skip: 'BUG-123' })).toEqual({
+      tag: ['@slow'],
+      annotation: [{ type: 'skip', description: 'BUG-123' }],
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '../../src/base/base-test';
+import { PasswordLoginAuth } from '../../src/utils/auth-providers';
+
+test.describe('GraphQL API Tests', () => {
+  test.use({
+    graphqlSchema: 'tests/api/schemas/schema.graphql',
+    apiAuth: new PasswordLoginAuth({
+      username: 'testuser@example.com',
+      password: 'testpassword123',
+    }),
+  });
+
+  test('Query products by category', async ({ graphqlTesting }) => {
+    const data = await graphqlTesting.query<{
+      products: Array<{ id: string; name: string; price: number }>;
+    }>(
+      `query ProductsByCategory($category: String) {
+        products(category: $category) { id name price }
+      }`,
+      { variables: { category: 'electronics' } }
+    );
+
+    expect(Array.isArray(data.products)).toBeTruthy();
+    data.products.forEach((product) => {
+      expect(product.price).toBeGreaterThan(0);
+    });
+  });
+
+  test('Mutation updates the current user', async ({ graphqlTesting }) => {
+    const data = await graphqlTesting.mutate<{
+      updateProfile: { id: string; firstName: string };
+    }>(
+      `mutation UpdateProfile($input: ProfileInput!) {
+        updateProfile(input: $input) { id firstName }
+      }`,
+      { variables: { input: { firstName: 'Updated' } } }
+    );
+
+    expect(data.updateProfile.firstName).toBe('Updated');
+  });
+
+  test('Unknown product is reported in errors[]', async ({
+    graphqlTesting,
+  }) => {
+    const result = await graphqlTesting.execute<{
+      product: { id: string; name: string } | null;
+    }>(
+      'query Product($id: ID!) { product(id: $id) { id name } }',
+      { variables: { id: 'does-not-exist' } }
+    );
+
+    expect(result.data?.product).toBeNull();
+    graphqlTesting.expectError(result, { code: 'NOT_FOUND', path: 'product' });
+  });
+
+  test('Persisted query by hash', async ({ graphqlTesting }) => {
+    const data = await graphqlTesting.query<{
+      me: { id: string; email: string };
+    }>('query Me { me { id email } }', { persisted: true });
+
+    expect(data.me.email).toBe('testuser@example.com');
+  });
+});
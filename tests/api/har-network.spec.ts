@@ -0,0 +1,259 @@
+import fs from 'fs';
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import {
+  DEFAULT_HAR_MATCH,
+  HarMatchOptions,
+  HarNetwork,
+} from '../../src/utils/har-network';
+import { MockServer, MockRoute } from '../../src/utils/mock-server';
+
+// Records against a local mock server, then replays with it stopped
+test.describe('HAR Record and Replay', () => {
+  test('replays recorded API responses offline', async ({
+    playwright,
+  }, testInfo) => {
+    const server = MockServer.fromFiles('mocks');
+    const baseURL = await server.start();
+    const harPath = testInfo.outputPath('products.har');
+    const request = await playwright.request.newContext({ baseURL });
+
+    const recorder = new HarNetwork('record', harPath, {}, baseURL);
+    const recording = new ApiTesting(request);
+    recording.useHar(recorder);
+    const recorded = await recording.get('/products/42', {
+      headers: { 'X-Request-Id': 'first-run' },
+    });
+    await recorder.finish();
+    await server.stop();
+
+    const player = new HarNetwork('replay', harPath, {}, baseURL);
+    const replaying = new ApiTesting(request);
+    replaying.useHar(player);
+    const replayed = await replaying.get('/products/42', {
+      expectedStatus: 200,
+      headers: { 'X-Request-Id': 'second-run' },
+    });
+
+    expect(replayed).toEqual(recorded);
+    await player.finish();
+    await request.dispose();
+  });
+
+  test('fails replay on requests missing from the recording', async ({
+    playwright,
+  }, testInfo) => {
+    const server = MockServer.fromFiles('mocks');
+    const baseURL = await server.start();
+    const harPath = testInfo.outputPath('products.har');
+    const request = await playwright.request.newContext({ baseURL });
+
+    const recorder = new HarNetwork('record', harPath, {}, baseURL);
+    const recording = new ApiTesting(request);
+    recording.useHar(recorder);
+    await recording.get('/products/1');
+    await recorder.finish();
+    await server.stop();
+
+    const player = new HarNetwork('replay', harPath, {}, baseURL);
+    const replaying = new ApiTesting(request);
+    replaying.useHar(player);
+
+    await expect(replaying.get('/products/2')).rejects.toThrow(
+      'No recorded response'
+    );
+    expect(player.getUnmatched()).toEqual([`GET ${baseURL}/products/2`]);
+    await expect(player.finish()).rejects.toThrow();
+    await request.dispose();
+  });
+
+  test('redacts credentials and cookies in the recording', async ({
+    playwright,
+  }, testInfo) => {
+    const server = new MockServer([
+      {
+        method: 'POST',
+        path: '/auth/session',
+        headers: { 'Set-Cookie': 'sid=secret-session; HttpOnly' },
+        body: { ok: true },
+      },
+    ]);
+    const baseURL = await server.start();
+    const harPath = testInfo.outputPath('session.har');
+    const request = await playwright.request.newContext({ baseURL });
+
+    const recorder = new HarNetwork('record', harPath, {}, baseURL);
+    const recording = new ApiTesting(request);
+    recording.useHar(recorder);
+    await recording.post('/auth/session', undefined, {
+      headers: { Authorization: 'Bearer secret-token', Cookie: 'sid=old' },
+    });
+    await recorder.finish();
+    await server.stop();
+    await request.dispose();
+
+    const har = fs.readFileSync(harPath, 'utf-8');
+    expect(har).not.toContain('secret');
+    expect(har).not.toContain('sid=');
+    const [entry] = JSON.parse(har).log.entries;
+    expect(entry.response.headers).toContainEqual({
+      name: 'Set-Cookie',
+      value: '[redacted]',
+    });
+  });
+});
+
+// Records calls against a local mock server, then replays others offline
+test.describe('HAR Matching', () => {
+  let request: APIRequestContext;
+  let harPath: string;
+  let baseURL: string;
+
+  const record = async (
+    routes: MockRoute[],
+    calls: (api: ApiTesting) => Promise<unknown>
+  ) => {
+    const server = new MockServer(routes);
+    baseURL = await server.start();
+    const recorder = new HarNetwork('record', harPath, {}, baseURL);
+    const api = new ApiTesting(request);
+    api.useHar(recorder);
+    await calls(api);
+    await recorder.finish();
+    await server.stop();
+  };
+
+  const replay = (options: HarMatchOptions = {}) => {
+    const player = new HarNetwork('replay', harPath, options, baseURL);
+    const api = new ApiTesting(request);
+    api.useHar(player);
+    return { player, api };
+  };
+
+  test.beforeEach(async ({ playwright }, testInfo) => {
+    harPath = testInfo.outputPath('matching.har');
+    request = await playwright.request.newContext();
+  });
+
+  test.afterEach(async () => {
+    await request.dispose();
+  });
+
+  test('repeated requests get responses in order, then the last', async () => {
+    await record(
+      [
+        {
+          path: '/jobs/1',
+          sequence: [
+            { body: { state: 'queued' } },
+            { body: { state: 'done' } },
+          ],
+        },
+      ],
+      async (api) => {
+        await api.get(`${baseURL}/jobs/1`);
+        await api.get(`${baseURL}/jobs/1`);
+      }
+    );
+
+    const { api, player } = replay();
+    const states: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      states.push((await api.get(`${baseURL}/jobs/1`)).state);
+    }
+
+    expect(states).toEqual(['queued', 'done', 'done', 'done']);
+    await player.finish();
+  });
+
+  test('ignored query parameters do not affect matching', async () => {
+    await record([{ path: '/search', body: { hits: 3 } }], (api) =>
+      api.get(`${baseURL}/search`, {
+        params: { q: 'lamp', cb: '1', utm_source: 'mail' },
+      })
+    );
+
+    const { api, player } = replay();
+    expect(
+      await api.get(`${baseURL}/search`, {
+        params: { utm_medium: 'ad', q: 'lamp', cb: '2' },
+      })
+    ).toEqual({ hits: 3 });
+    await expect(
+      api.get(`${baseURL}/search`, { params: { q: 'desk' } })
+    ).rejects.toThrow('No recorded response');
+
+    // Lists replace the defaults, so extend them
+    const lenient = replay({
+      ignoreQueryParams: [...DEFAULT_HAR_MATCH.ignoreQueryParams, 'q'],
+    });
+    expect(
+      await lenient.api.get(`${baseURL}/search`, { params: { q: 'desk' } })
+    ).toEqual({ hits: 3 });
+    await expect(player.finish()).rejects.toThrow(/search\?q=desk/);
+  });
+
+  test('ignored headers do not affect matching', async () => {
+    await record([{ path: '/me', body: { tenant: 'acme' } }], (api) =>
+      api.get(`${baseURL}/me`, {
+        headers: {
+          'X-Tenant': 'acme',
+          'X-Trace-Id': 'a1',
+          'X-Request-Id': '1',
+        },
+      })
+    );
+
+    // X-Request-Id is ignored by default, X-Tenant is not
+    const strict = replay();
+    await expect(
+      strict.api.get(`${baseURL}/me`, {
+        headers: { 'X-Tenant': 'globex', 'X-Trace-Id': 'a1' },
+      })
+    ).rejects.toThrow('No recorded response');
+    expect(
+      await strict.api.get(`${baseURL}/me`, {
+        headers: {
+          'X-Tenant': 'acme',
+          'X-Trace-Id': 'a1',
+          'X-Request-Id': '2',
+        },
+      })
+    ).toEqual({ tenant: 'acme' });
+
+    // A trailing * ignores every header with that prefix
+    const lenient = replay({
+      ignoreHeaders: [
+        ...DEFAULT_HAR_MATCH.ignoreHeaders,
+        'x-tenant',
+        'x-trace-*',
+      ],
+    });
+    expect(
+      await lenient.api.get(`${baseURL}/me`, {
+        headers: { 'X-Tenant': 'globex', 'X-Trace-Id': 'b2' },
+      })
+    ).toEqual({ tenant: 'acme' });
+  });
+
+  test('JSON bodies match regardless of key order', async () => {
+    await record(
+      [{ method: 'POST', path: '/orders', status: 201, body: { id: 7 } }],
+      (api) => api.post(`${baseURL}/orders`, { sku: 'A1', quantity: 2 })
+    );
+
+    const { api } = replay();
+    expect(
+      await api.post(`${baseURL}/orders`, { quantity: 2, sku: 'A1' })
+    ).toEqual({ id: 7 });
+    await expect(
+      api.post(`${baseURL}/orders`, { quantity: 3, sku: 'A1' })
+    ).rejects.toThrow('No recorded response');
+
+    const { api: anyBody } = replay({ matchBody: false });
+    expect(
+      await anyBody.post(`${baseURL}/orders`, { quantity: 3, sku: 'A1' })
+    ).toEqual({ id: 7 });
+  });
+});
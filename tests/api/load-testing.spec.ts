@@ -0,0 +1,142 @@
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import {
+  LoadSample,
+  parseThreshold,
+  percentile,
+  summarizeSamples,
+} from '../../src/utils/load-testing';
+import { MockServer } from '../../src/utils/mock-server';
+
+const sample = (latency: number, status: LoadSample['status'] = 200) => ({
+  startedAt: 0,
+  latency,
+  status,
+});
+
+test.describe('Load Test Statistics', () => {
+  test('percentiles use the nearest rank', () => {
+    const sorted = Array.from({ length: 10 }, (_, i) => (i + 1) * 10);
+
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 90)).toBe(90);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile(sorted, 99)).toBe(100);
+    expect(percentile([42], 50)).toBe(42);
+    expect(percentile([], 95)).toBe(0);
+  });
+
+  test('summaries count errors, statuses and throughput', () => {
+    const stats = summarizeSamples(
+      [sample(30), sample(10), sample(20, 500), sample(40, 'error')],
+      2000
+    );
+
+    expect(stats).toMatchObject({
+      requests: 4,
+      errors: 2,
+      errorRate: 50,
+      throughput: 2,
+      statusCodes: { '200': 2, '500': 1, error: 1 },
+      latency: { min: 10, max: 40, mean: 25, p50: 20 },
+    });
+  });
+
+  test('thresholds compare latency, error rate and throughput', () => {
+    const stats = summarizeSamples([sample(100), sample(300, 503)], 1000);
+
+    const results = [
+      'p95 < 300ms',
+      'p95 <= 300ms',
+      'max < 0.5s',
+      'avg >= 200',
+      'errors < 1%',
+      'throughput > 1',
+    ].map((threshold) => parseThreshold(threshold).evaluate(stats));
+
+    expect(results.map((r) => r.passed)).toEqual([
+      false,
+      true,
+      true,
+      true,
+      false,
+      true,
+    ]);
+    expect(results[4]).toEqual({
+      threshold: 'errors < 1%',
+      actual: 50,
+      passed: false,
+    });
+  });
+
+  test('unknown thresholds are rejected', () => {
+    for (const threshold of ['p75 < 300ms', 'errors = 0', 'p95 < fast']) {
+      expect(() => parseThreshold(threshold)).toThrow(
+        `Invalid load test threshold: "${threshold}"`
+      );
+    }
+  });
+});
+
+// Runs against its own mock server, so it needs no backend
+test.describe('Sequential Performance Tests', () => {
+  let server: MockServer;
+  let request: APIRequestContext;
+  let apiTesting: ApiTesting;
+
+  test.beforeAll(async ({ playwright }) => {
+    server = new MockServer([
+      { path: '/fast', body: { ok: true } },
+      {
+        path: '/unstable',
+        loop: true,
+        sequence: [{ body: { ok: true } }, { status: 500 }],
+      },
+    ]);
+    request = await playwright.request.newContext({
+      baseURL: await server.start(),
+    });
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    apiTesting = new ApiTesting(request);
+  });
+
+  test('reports percentiles, error rate and threshold results', async () => {
+    const result = await apiTesting.testPerformance('/fast', {
+      iterations: 4,
+      thresholds: ['p95 < 5s', 'errors < 1%'],
+    });
+
+    expect(result.errorRate).toBe(0);
+    expect(result.p99).toBeGreaterThanOrEqual(result.p50);
+    expect(result.thresholds.every((t) => t.passed)).toBe(true);
+  });
+
+  test('fails on a missed error-rate threshold', async () => {
+    await expect(
+      apiTesting.testPerformance('/unstable', {
+        iterations: 4,
+        retry: false,
+        thresholds: ['errors < 10%'],
+      })
+    ).rejects.toThrow(
+      'Performance test "GET /unstable" failed thresholds:\n' +
+        '  errors < 10% (actual: 50.00)'
+    );
+  });
+
+  test('rejects invalid thresholds before sending requests', async () => {
+    await expect(
+      apiTesting.testPerformance('/fast', { thresholds: ['p95 < quick'] })
+    ).rejects.toThrow('Invalid load test threshold');
+    expect(server.getRequests()).toEqual([]);
+  });
+});
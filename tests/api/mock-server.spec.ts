@@ -0,0 +1,62 @@
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import { MockServer } from '../../src/utils/mock-server';
+
+// Runs against its own mock server, so it needs no backend
+test.describe('Mock API Server', () => {
+  let server: MockServer;
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    server = MockServer.fromFiles('mocks');
+    baseURL = await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+  });
+
+  test('templates path params into the body', async ({ playwright }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(request);
+
+    const product = await apiTesting.get('/products/42', {
+      expectedStatus: 200,
+    });
+
+    expect(product).toMatchObject({ id: '42', name: 'Product 42' });
+    await request.dispose();
+  });
+
+  test('walks stateful sequences call by call', async ({ playwright }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(request);
+
+    const statuses: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      statuses.push((await apiTesting.get('/orders/7/status')).status);
+    }
+
+    expect(statuses).toEqual([
+      'placed',
+      'paid',
+      'shipped',
+      'delivered',
+      'delivered',
+    ]);
+    await request.dispose();
+  });
+
+  test('answers unknown routes with 404', async ({ playwright }) => {
+    const request = await playwright.request.newContext({ baseURL });
+    const apiTesting = new ApiTesting(request);
+
+    await apiTesting.get('/unknown', { expectedStatus: 404 });
+    expect(server.getRequests()).toHaveLength(1);
+    await request.dispose();
+  });
+});
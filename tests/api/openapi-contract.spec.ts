@@ -0,0 +1,161 @@
+import path from 'path';
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import { MockServer } from '../../src/utils/mock-server';
+import {
+  OpenApiContract,
+  OpenApiOperation,
+  generateApiCoverageReport,
+  recordApiCoverage,
+} from '../../src/utils/openapi-contract';
+
+const SPEC_PATH = path.join(__dirname, 'schemas', 'openapi.yaml');
+
+test.describe('OpenAPI Contract', () => {
+  const contract = OpenApiContract.fromFile(SPEC_PATH);
+  const operation = (id: string): OpenApiOperation => {
+    const found = contract.getOperations().find((op) => op.id === id);
+    if (!found) throw new Error(`No operation ${id} in the fixture spec`);
+    return found;
+  };
+
+  test('finds the operation a request maps to', () => {
+    expect(contract.findOperation('get', '/products?page=2')?.id).toBe(
+      'listProducts'
+    );
+    expect(contract.findOperation('GET', '/products/42/')?.id).toBe(
+      'getProduct'
+    );
+    expect(contract.findOperation('DELETE', '/products/42')?.id).toBe(
+      'deleteProduct'
+    );
+    expect(contract.findOperation('POST', '/products')).toBeUndefined();
+    expect(contract.findOperation('GET', '/products/42/reviews')).toBe(
+      undefined
+    );
+  });
+
+  test('builds endpoints and headers from examples and params', () => {
+    expect(contract.buildEndpoint(operation('listProducts'))).toEqual({
+      endpoint: '/products?category=electronics',
+      headers: { 'X-Tenant': 'acme' },
+      missing: [],
+    });
+    expect(
+      contract.buildEndpoint(
+        operation('listProducts'),
+        { category: 'books' },
+        { 'x-tenant': 'globex' }
+      )
+    ).toEqual({
+      endpoint: '/products?category=books',
+      headers: { 'X-Tenant': 'globex' },
+      missing: [],
+    });
+    expect(
+      contract.buildEndpoint(operation('getProduct'), { id: 'a b' }).endpoint
+    ).toBe('/products/a%20b');
+  });
+
+  test('reports required parameters without a value', () => {
+    expect(contract.buildEndpoint(operation('deleteProduct')).missing).toEqual(
+      ['path:id', 'header:X-Request-Id']
+    );
+    expect(
+      contract.buildEndpoint(
+        operation('deleteProduct'),
+        { id: '42' },
+        { 'X-Request-Id': 'req-1' }
+      )
+    ).toEqual({
+      endpoint: '/products/42',
+      headers: { 'X-Request-Id': 'req-1' },
+      missing: [],
+    });
+  });
+
+  test.describe('validateResponse', () => {
+    let server: MockServer;
+    let request: APIRequestContext;
+    let apiTesting: ApiTesting;
+
+    test.beforeAll(async ({ playwright }) => {
+      server = new MockServer([
+        {
+          path: '/products/1',
+          body: { id: '1', name: 'Laptop', price: 999, description: null },
+        },
+        { path: '/products/2', body: { id: '2', price: -1 } },
+        { path: '/products/3', status: 404, body: { error: 'Not found' } },
+        { path: '/products/4', status: 500, body: { error: 'Boom' } },
+      ]);
+      request = await playwright.request.newContext({
+        baseURL: await server.start(),
+      });
+      apiTesting = new ApiTesting(request);
+    });
+
+    test.afterAll(async () => {
+      await request.dispose();
+      await server.stop();
+    });
+
+    test('accepts documented statuses and bodies', async () => {
+      const getProduct = operation('getProduct');
+
+      const ok = await apiTesting.getResponse('/products/1');
+      expect(contract.validateResponse(getProduct, ok)).toEqual([]);
+
+      // 404 matches the 4XX range
+      const notFound = await apiTesting.getResponse('/products/3');
+      expect(contract.validateResponse(getProduct, notFound)).toEqual([]);
+    });
+
+    test('reports schema violations and undocumented statuses', async () => {
+      const getProduct = operation('getProduct');
+
+      const invalid = await apiTesting.getResponse('/products/2');
+      expect(
+        contract
+          .validateResponse(getProduct, invalid)
+          .map((violation) => violation.keyword)
+          .sort()
+      ).toEqual(['minimum', 'required']);
+
+      const failed = await apiTesting.getResponse('/products/4');
+      expect(contract.validateResponse(getProduct, failed)).toEqual([
+        expect.objectContaining({
+          keyword: 'status',
+          message: expect.stringContaining('status 500 is not documented'),
+        }),
+      ]);
+    });
+  });
+
+  test('coverage report lists operations no call exercised', () => {
+    const dir = test.info().outputPath('openapi-coverage');
+    const call = (method: string, endpoint: string) => ({
+      method,
+      endpoint,
+      status: 200,
+      duration: 1,
+    });
+    recordApiCoverage(
+      [call('GET', '/products'), call('GET', '/products/7')],
+      dir
+    );
+    recordApiCoverage([call('GET', '/health')], dir);
+
+    const report = generateApiCoverageReport(SPEC_PATH, dir);
+
+    expect(report).toMatchObject({
+      totalOperations: 3,
+      coveredOperations: 2,
+      uncovered: [
+        { id: 'deleteProduct', method: 'DELETE', path: '/products/{id}' },
+      ],
+    });
+    expect(report.coverage).toBeCloseTo(66.67, 1);
+  });
+});
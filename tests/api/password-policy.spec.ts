@@ -0,0 +1,50 @@
+import { test, expect } from '../../src/base/base-test';
+import { PasswordGenerator } from '../../src/config/password-policy';
+import { testData } from '../../src/config/test-data';
+
+test.describe('Password Policy', () => {
+  test('generated passwords satisfy the policy', () => {
+    const policy = new PasswordGenerator({ minLength: 10, maxLength: 16 });
+
+    for (let i = 0; i < 50; i++) {
+      const password = policy.generate('jane.doe');
+      expect(password.length).toBeGreaterThanOrEqual(10);
+      expect(policy.check(password, 'jane.doe')).toEqual([]);
+    }
+  });
+
+  test('invalid variants each break exactly one rule', () => {
+    const policy = new PasswordGenerator();
+
+    for (const { rule, password } of policy.invalidVariants('jane.doe')) {
+      expect(policy.check(password, 'jane.doe')).toEqual([rule]);
+    }
+  });
+
+  test.describe('registration', () => {
+    test.skip(
+      process.env.MOCK_API === 'true',
+      'The mock API does not enforce the password policy'
+    );
+
+    const username = testData.generateRandomUsername();
+    for (const { rule, password } of testData.generateInvalidPasswords(
+      {},
+      username
+    )) {
+      test(`POST /auth/register - rejects password: ${rule}`, async ({
+        apiTesting,
+      }) => {
+        await apiTesting.post(
+          '/auth/register',
+          {
+            username,
+            email: testData.generateRandomEmail(),
+            password,
+          },
+          { expectedStatus: 400 }
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect } from '../../src/base/base-test';
+import productSchema from './schemas/product.schema.json';
+
+test.describe('Products API Contract Tests', () => {
+  test.beforeEach(async ({ apiTesting }) => {
+    apiTesting.registerSchema(productSchema);
+  });
+
+  test('GET /products - list matches product schema', async ({
+    apiTesting,
+  }) => {
+    const response = await apiTesting.get('/products', {
+      expectedStatus: 200,
+    });
+
+    expect(Array.isArray(response)).toBeTruthy();
+    await apiTesting.validateSchema(
+      response,
+      'product.schema.json#/$defs/productList'
+    );
+  });
+
+  test('GET /products/:id - item matches product schema', async ({
+    apiTesting,
+  }) => {
+    const products = await apiTesting.get('/products', {
+      params: { limit: '1' },
+    });
+    test.skip(products.length === 0, 'No products available');
+
+    const response = await apiTesting.get(`/products/${products[0].id}`, {
+      expectedStatus: 200,
+    });
+
+    await apiTesting.validateSchema(
+      response,
+      'product.schema.json#/$defs/product'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '../../src/base/base-test';
+
+test.describe('Profile API Tests', () => {
+  let token: string;
+
+  test.beforeEach(async ({ apiTesting }) => {
+    const loginResponse = await apiTesting.post('/auth/login', {
+      username: 'testuser@example.com',
+      password: 'testpassword123',
+    });
+    token = loginResponse.token;
+  });
+
+  test('PATCH /auth/profile - partial update', async ({ apiTesting }) => {
+    const response = await apiTesting.authenticatedRequest<{
+      firstName: string;
+    }>(
+      'PATCH',
+      '/auth/profile',
+      token,
+      { firstName: 'Updated' }
+    );
+
+    expect(response.firstName).toBe('Updated');
+    expect(response).toHaveProperty('email');
+  });
+
+  test('POST /auth/profile/avatar - multipart upload', async ({
+    apiTesting,
+  }) => {
+    const response = await apiTesting.postResponse(
+      '/auth/profile/avatar',
+      undefined,
+      {
+        headers: { Authorization: `Bearer ${token}` },
+        multipart: {
+          avatar: {
+            name: 'avatar.png',
+            mimeType: 'image/png',
+            buffer: Buffer.from(
+              'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+              'base64'
+            ),
+          },
+          description: 'Profile picture',
+        },
+      }
+    );
+
+    expect([200, 201]).toContain(response.status);
+    expect(response.body).toHaveProperty('avatarUrl');
+  });
+
+  test('HEAD /auth/profile - headers only', async ({ apiTesting }) => {
+    const response = await apiTesting.head('/auth/profile', {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBeUndefined();
+    expect(response.header('content-type')).toContain('application/json');
+  });
+
+  test('OPTIONS /auth/login - CORS preflight', async ({ apiTesting }) => {
+    const preflight = await apiTesting.corsPreflight('/auth/login', {
+      origin: 'http://localhost:3000',
+      method: 'POST',
+      headers: ['Content-Type'],
+    });
+
+    expect(preflight.response.status).toBeLessThan(300);
+    expect(preflight.allowMethods).toContain('POST');
+    expect(preflight.allowHeaders.map((h) => h.toLowerCase())).toContain(
+      'content-type'
+    );
+  });
+});
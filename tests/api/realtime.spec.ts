@@ -0,0 +1,171 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { test, expect } from '../../src/base/base-test';
+import { RealtimeTesting } from '../../src/utils/realtime-testing';
+
+// Runs against its own WebSocket and SSE server, so it needs no backend
+test.describe('Realtime Connections', () => {
+  let server: http.Server;
+  let sockets: WebSocketServer;
+  let baseURL: string;
+
+  // Chunks of each stream, written with a pause so the parser sees events
+  // split across reads
+  const streams: Record<string, string[]> = {
+    '/events/orders': [
+      ': keep-alive\n\n',
+      'event: status\ndata: {"orderId":"42",',
+      '"status":"placed"}\n\n',
+      'event: status\r\ndata: {"orderId":"42","status":"paid"}\r\n\r\n',
+    ],
+    '/events/log': ['id: 1\ndata: first line\ndata: second line\n\n'],
+  };
+
+  test.beforeAll(async () => {
+    server = http.createServer(async (req, res) => {
+      const chunks = streams[req.url || ''];
+      if (!chunks) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const chunk of chunks) {
+        res.write(chunk);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    });
+
+    sockets = new WebSocketServer({ server });
+    sockets.on('connection', (socket, request) => {
+      socket.send(
+        JSON.stringify({
+          type: 'welcome',
+          path: request.url,
+          token: request.headers['x-token'] ?? null,
+        })
+      );
+      if (request.url === '/binary') {
+        socket.send(Buffer.from([0xde, 0xad, 0xbe, 0xef]), { binary: true });
+      }
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        socket.send(JSON.stringify({ type: 'subscribed', ...message }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    sockets.clients.forEach((socket) => socket.terminate());
+    sockets.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  let realtimeTesting: RealtimeTesting;
+
+  test.beforeEach(() => {
+    realtimeTesting = new RealtimeTesting(baseURL);
+  });
+
+  test.afterEach(() => {
+    realtimeTesting.closeAll();
+  });
+
+  test('WebSocket records sent and received frames in order', async () => {
+    const socket = await realtimeTesting.connectWebSocket('/notifications', {
+      headers: { 'X-Token': 'secret' },
+    });
+
+    socket.send({ topic: 'orders' });
+
+    const [welcome, sent, reply] = await socket.expectSequence([
+      { direction: 'received', json: { type: 'welcome' } },
+      { direction: 'sent' },
+      { direction: 'received', json: { type: 'subscribed' } },
+    ]);
+    expect(welcome.url).toBe(`${baseURL.replace(/^http/, 'ws')}/notifications`);
+    expect(welcome.json).toEqual({
+      type: 'welcome',
+      path: '/notifications',
+      token: 'secret',
+    });
+    expect(sent.data).toBe('{"topic":"orders"}');
+    expect(reply.json).toEqual({ type: 'subscribed', topic: 'orders' });
+  });
+
+  test('WebSocket matchers check schemas and report misses', async () => {
+    const socket = await realtimeTesting.connectWebSocket('/notifications');
+    realtimeTesting.registerSchema(
+      {
+        type: 'object',
+        required: ['type', 'path'],
+        properties: { type: { const: 'welcome' } },
+      },
+      'welcome'
+    );
+
+    await socket.waitForMessage({ schema: 'welcome', contains: /notif/ });
+    await socket.expectNoMessage(
+      { json: { type: 'error' } },
+      { duration: 100 }
+    );
+    await expect(
+      socket.waitForMessage({ json: { type: 'error' } }, { timeout: 100 })
+    ).rejects.toThrow(
+      /No websocket message matching .* within 100ms\. Received 1, last 1/
+    );
+  });
+
+  test('binary WebSocket frames are recorded as base64', async () => {
+    const socket = await realtimeTesting.connectWebSocket('/binary');
+
+    const frame = await socket.waitForMessage({ contains: '3q2+7w==' });
+    expect(frame.json).toBeUndefined();
+  });
+
+  test('connecting to a closed port fails clearly', async () => {
+    await expect(
+      realtimeTesting.connectWebSocket('ws://127.0.0.1:1/socket', {
+        timeout: 1000,
+      })
+    ).rejects.toThrow('WebSocket ws://127.0.0.1:1/socket failed');
+  });
+
+  test('SSE parser joins chunks, names events and skips comments', async () => {
+    const orders = await realtimeTesting.connectEventSource('/events/orders');
+
+    const events = await orders.expectSequence([
+      { event: 'status', json: { status: 'placed' } },
+      { event: 'status', json: { status: 'paid' } },
+    ]);
+    expect(events.map((event) => event.json)).toEqual([
+      { orderId: '42', status: 'placed' },
+      { orderId: '42', status: 'paid' },
+    ]);
+    expect(orders.messages).toHaveLength(2);
+  });
+
+  test('SSE data lines are joined with newlines', async () => {
+    const log = await realtimeTesting.connectEventSource('/events/log');
+
+    const message = await log.waitForMessage({ event: 'message' });
+    expect(message.data).toBe('first line\nsecond line');
+  });
+
+  test('SSE streams that fail to open are reported', async () => {
+    await expect(
+      realtimeTesting.connectEventSource('/events/missing')
+    ).rejects.toThrow(`SSE stream ${baseURL}/events/missing failed: 404`);
+  });
+
+  test('page taps need an attached page', () => {
+    expect(() => realtimeTesting.tapWebSocket('/notifications')).toThrow(
+      'tapWebSocket() needs a page'
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import { ApiTesting } from '../../src/utils/api-testing';
+import { MockServer } from '../../src/utils/mock-server';
+import {
+  backoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '../../src/utils/retry-policy';
+
+test.describe('Retry Policy', () => {
+  test('backs off exponentially up to the maximum delay', () => {
+    const policy = resolveRetryPolicy({
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: 0,
+    });
+
+    const delays = [1, 2, 3, 4].map((attempt) => backoffDelay(policy, attempt));
+    expect(delays).toEqual([100, 200, 400, 500]);
+  });
+
+  test('jitter only shortens the delay, by at most its fraction', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 1000, jitter: 0.25 });
+
+    for (let i = 0; i < 50; i++) {
+      const delay = backoffDelay(policy, 1);
+      expect(delay).toBeGreaterThanOrEqual(750);
+      expect(delay).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  test('parses Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThan(8000);
+    expect(parseRetryAfter(inTenSeconds)).toBeLessThanOrEqual(10_000);
+  });
+});
+
+// Runs against its own mock server, so it needs no backend
+test.describe('Retrying Requests', () => {
+  let server: MockServer;
+  let request: APIRequestContext;
+  let apiTesting: ApiTesting;
+
+  test.beforeAll(async ({ playwright }) => {
+    server = new MockServer([
+      {
+        method: '*',
+        path: '/flaky',
+        sequence: [{ status: 503 }, { status: 502 }, { body: { ok: true } }],
+      },
+      {
+        path: '/throttled',
+        sequence: [
+          { status: 429, headers: { 'Retry-After': '1' } },
+          { body: { ok: true } },
+        ],
+      },
+    ]);
+    request = await playwright.request.newContext({
+      baseURL: await server.start(),
+    });
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    apiTesting = new ApiTesting(request, undefined, {
+      baseDelayMs: 1,
+      jitter: 0,
+    });
+  });
+
+  test('retries retryable statuses and logs every retry', async () => {
+    const response = await apiTesting.getResponse('/flaky');
+
+    expect(response.status).toBe(200);
+    expect(apiTesting.getRetryLog()).toMatchObject([
+      { method: 'GET', attempt: 1, reason: 'status 503', delayMs: 1 },
+      { method: 'GET', attempt: 2, reason: 'status 502', delayMs: 2 },
+    ]);
+  });
+
+  test('gives up after maxAttempts and returns the last response', async () => {
+    const response = await apiTesting
+      .withRetry({ maxAttempts: 2, baseDelayMs: 1, jitter: 0 })
+      .getResponse('/flaky');
+
+    expect(response.status).toBe(502);
+    expect(apiTesting.getRetryLog()).toHaveLength(1);
+  });
+
+  test('waits as long as Retry-After asks, capped at maxDelayMs', async () => {
+    const response = await apiTesting.getResponse('/throttled', {
+      retry: { maxDelayMs: 50 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(apiTesting.getRetryLog()).toMatchObject([
+      { reason: 'status 429', delayMs: 50 },
+    ]);
+  });
+
+  test('retries POST only when retryNonIdempotent is set', async () => {
+    const first = await apiTesting.postResponse('/flaky', { id: 1 });
+    expect(first.status).toBe(503);
+    expect(apiTesting.getRetryLog()).toEqual([]);
+
+    server.reset();
+    const second = await apiTesting.postResponse(
+      '/flaky',
+      { id: 1 },
+      { retry: { retryNonIdempotent: true } }
+    );
+    expect(second.status).toBe(200);
+    expect(apiTesting.getRetryLog()).toHaveLength(2);
+  });
+});
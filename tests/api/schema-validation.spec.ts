@@ -0,0 +1,50 @@
+import { test, expect } from '../../src/base/base-test';
+import { SchemaValidator } from '../../src/utils/schema-validation';
+import productSchema from './schemas/product.schema.json';
+
+test.describe('Schema Detection', () => {
+  test('recognises JSON Schema documents', () => {
+    expect(SchemaValidator.isJsonSchema(productSchema)).toBe(true);
+    expect(SchemaValidator.isJsonSchema({ $ref: 'user.json' })).toBe(true);
+    expect(
+      SchemaValidator.isJsonSchema({
+        type: 'object',
+        properties: { id: { type: 'integer' } },
+        required: ['id'],
+      })
+    ).toBe(true);
+    expect(
+      SchemaValidator.isJsonSchema({ type: 'string', format: 'email' })
+    ).toBe(true);
+    expect(SchemaValidator.isJsonSchema({ oneOf: [{ type: 'null' }] })).toBe(
+      true
+    );
+  });
+
+  test('keeps legacy shorthand with keyword-like field names', () => {
+    const shorthands = [
+      { type: 'string', format: 'string' },
+      { title: 'string', description: 'string' },
+      { id: 'number', type: 'string' },
+      { items: 'array', required: 'boolean' },
+    ];
+
+    for (const shorthand of shorthands) {
+      expect(SchemaValidator.isJsonSchema(shorthand)).toBe(false);
+    }
+  });
+
+  test('validates keyword-like shorthand as required fields', async ({
+    apiTesting,
+  }) => {
+    const shorthand = { title: 'string', description: 'string' };
+
+    await apiTesting.validateSchema(
+      { title: 'Widget', description: 'A widget' },
+      shorthand
+    );
+    await expect(
+      apiTesting.validateSchema({ title: 'Widget' }, shorthand)
+    ).rejects.toThrow(/description/);
+  });
+});
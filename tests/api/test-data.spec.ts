@@ -0,0 +1,138 @@
+import { test, expect } from '../../src/base/base-test';
+import { TestDataRegistry } from '../../src/config/data-registry';
+import { factories } from '../../src/config/factories';
+import { TestDataManager, testData } from '../../src/config/test-data';
+import { ApiTesting } from '../../src/utils/api-testing';
+import { DataGenerator, isValidLuhn } from '../../src/utils/data-generator';
+import { MockServer } from '../../src/utils/mock-server';
+
+test.describe('Test Data Provisioning', () => {
+  test('creates an order with its user and address', async ({
+    dataRegistry,
+  }) => {
+    const order = await dataRegistry.create('order', {}, 'paid');
+
+    expect(order.id).toBeTruthy();
+    expect(order.userId).toBeTruthy();
+    expect(order.shippingAddress?.id).toBeTruthy();
+    expect(order.status).toBe('paid');
+  });
+
+  test('cleanup deletes in reverse dependency order', async ({
+    playwright,
+  }) => {
+    const server = MockServer.fromFiles('mocks');
+    const baseURL = await server.start();
+    const request = await playwright.request.newContext({ baseURL });
+    const registry = new TestDataRegistry(new ApiTesting(request));
+
+    const order = await registry.create('order');
+    const product = await registry.create('product', {}, 'outOfStock');
+    await registry.cleanup();
+
+    const deletes = server
+      .getRequests()
+      .filter((logged) => logged.method === 'DELETE')
+      .map((logged) => logged.path);
+    expect(deletes).toEqual([
+      `/products/${product.id}`,
+      `/orders/${order.id}`,
+      `/addresses/${order.shippingAddress?.id}`,
+      `/users/${order.userId}`,
+    ]);
+
+    await request.dispose();
+    await server.stop();
+  });
+
+  test('registers a user with generated details', async ({
+    dataRegistry,
+    dataGenerator,
+  }) => {
+    const email = dataGenerator.email();
+    const user = await dataRegistry.create('user', {
+      email,
+      firstName: dataGenerator.firstName(),
+      lastName: dataGenerator.lastName(),
+    });
+
+    expect(user.id).toBeTruthy();
+    expect(user.email).toBe(email);
+  });
+
+  test('same seed and scope reproduce the same data', () => {
+    const first = new DataGenerator(1234, 'checkout');
+    const second = new DataGenerator(1234, 'checkout');
+    const otherTest = new DataGenerator(1234, 'search');
+
+    expect(second.address()).toEqual(first.address());
+    expect(second.email()).toBe(first.email());
+
+    // Unique values differ between scopes even with the same seed
+    expect(otherTest.unique('order-')).not.toBe(first.unique('order-'));
+
+    const card = first.creditCard('mastercard');
+    expect(isValidLuhn(card.number)).toBe(true);
+  });
+
+  test('factory defaults draw from the given generator', () => {
+    const first = factories.withGenerator(new DataGenerator(42, 'factories'));
+    const second = factories.withGenerator(new DataGenerator(42, 'factories'));
+
+    const user = first.build('user');
+    expect(second.build('user')).toEqual(user);
+    expect(first.build('user').lastName).toBe('User2');
+  });
+
+  test('same seed gives the same ids and sequences in any order', async () => {
+    const other = factories.withGenerator(new DataGenerator(42, 'other'));
+    const build = async () => {
+      const scoped = factories.withGenerator(
+        new DataGenerator(42, 'factories')
+      );
+      return {
+        order: await scoped.create('order'),
+        product: scoped.build('product'),
+      };
+    };
+
+    const first = await build();
+    // Entities made with another generator in between change nothing
+    await other.createList('order', 2);
+    other.buildList('product', 3);
+
+    expect(await build()).toEqual(first);
+    expect(first.order.id).toMatch(/^order_/);
+    expect(first.product.name).toBe('Test Product 1');
+  });
+
+  test('scoped data is namespaced and isolated per test', ({
+    scopedData,
+  }) => {
+    const user = scopedData.createUser();
+    const product = scopedData.createProduct();
+
+    expect(user.username.startsWith(`${scopedData.namespace}_`)).toBe(true);
+    expect(user.email.startsWith(`${scopedData.namespace}_`)).toBe(true);
+    expect(product.name.startsWith(`${scopedData.namespace} `)).toBe(true);
+    expect(testData.getAllUsers()).not.toContainEqual(user);
+  });
+
+  test('cleanup only removes data of its own namespace', () => {
+    const first = TestDataManager.forNamespace('first');
+    const second = TestDataManager.forNamespace('second');
+    const seedCount = first.getAllUsers().length;
+
+    first.createUser();
+    second.createUser();
+    first.cleanup();
+
+    expect(first.getAllUsers()).toHaveLength(seedCount);
+    expect(second.getAllUsers()).toHaveLength(seedCount + 1);
+
+    // Seeds are rebuilt, never duplicated
+    second.reset();
+    second.reset();
+    expect(second.getAllUsers()).toHaveLength(seedCount);
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect, BaseTest } from '../../src/base/base-test';
+import { AuthProvider } from '../../src/utils/auth-providers';
+
+// Both origins are served by context routes, so it needs no app server
+test.describe('BaseTest.authenticate', () => {
+  test('sends auth headers to the app origin only', async ({
+    page,
+    context,
+    request,
+  }) => {
+    let token = 'token-1';
+    const provider: AuthProvider = {
+      name: 'test',
+      getCredentials: async () => ({
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      invalidate: () => undefined,
+    };
+
+    const received: Record<string, string | undefined> = {};
+    await context.route(/^http:\/\/(app|cdn)\.test\//, async (route) => {
+      const url = new URL(route.request().url());
+      received[`${url.host}${url.pathname}`] =
+        route.request().headers()['authorization'];
+      await route.fulfill({ body: 'ok' });
+    });
+
+    await new BaseTest(page, context, request).authenticate(
+      provider,
+      'http://app.test'
+    );
+
+    await page.goto('http://app.test/');
+    await page.evaluate(() =>
+      fetch('http://cdn.test/lib.js', { mode: 'no-cors' })
+    );
+    // A refreshed token is picked up by the next request
+    token = 'token-2';
+    await page.evaluate(() => fetch('/api/me'));
+
+    expect(received).toEqual({
+      'app.test/': 'Bearer token-1',
+      'cdn.test/lib.js': undefined,
+      'app.test/api/me': 'Bearer token-2',
+    });
+  });
+});
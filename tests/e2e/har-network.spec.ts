@@ -0,0 +1,102 @@
+import { BrowserContext, Page } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import { HarNetwork } from '../../src/utils/har-network';
+
+// The app origin is served by context routes while recording, so it needs
+// no app server; replay runs in a fresh context without those routes
+test.describe('HAR Browser Replay', () => {
+  const APP = 'http://app.test';
+
+  const serveApp = async (context: BrowserContext) => {
+    let stock = 5;
+    await context.route(`${APP}/**`, async (route) => {
+      const url = new URL(route.request().url());
+      if (url.pathname === '/') {
+        await route.fulfill({
+          contentType: 'text/html',
+          body: '<h1>Shop</h1>',
+        });
+      } else if (url.pathname === '/api/stock') {
+        await route.fulfill({ json: { stock: stock-- } });
+      } else {
+        await route.fulfill({ status: 404, json: { error: 'Not found' } });
+      }
+    });
+  };
+
+  const stock = (page: Page) =>
+    page.evaluate(async () => {
+      const response = await fetch('/api/stock?_=' + Math.random());
+      return (await response.json()).stock;
+    });
+
+  test('replays page traffic from the recording', async ({
+    browser,
+  }, testInfo) => {
+    const harPath = testInfo.outputPath('shop.har');
+
+    const recordContext = await browser.newContext();
+    await serveApp(recordContext);
+    const recorder = new HarNetwork('record', harPath);
+    await recorder.attachContext(recordContext);
+    const recordPage = await recordContext.newPage();
+    await recordPage.goto(APP);
+    expect([await stock(recordPage), await stock(recordPage)]).toEqual([5, 4]);
+    await recordContext.close();
+    await recorder.finish();
+
+    const replayContext = await browser.newContext();
+    const player = new HarNetwork('replay', harPath);
+    await player.attachContext(replayContext);
+    // Attaching twice must not answer requests twice
+    await player.attachContext(replayContext);
+    const page = await replayContext.newPage();
+    await page.goto(APP);
+
+    await expect(page.locator('h1')).toHaveText('Shop');
+    // In order, then the last response repeats
+    expect([await stock(page), await stock(page), await stock(page)]).toEqual(
+      [5, 4, 4]
+    );
+    await player.finish();
+    await replayContext.close();
+  });
+
+  test('aborts unknown requests and lets page routes win', async ({
+    browser,
+  }, testInfo) => {
+    const harPath = testInfo.outputPath('shop.har');
+
+    const recordContext = await browser.newContext();
+    await serveApp(recordContext);
+    const recorder = new HarNetwork('record', harPath);
+    await recorder.attachContext(recordContext);
+    const recordPage = await recordContext.newPage();
+    await recordPage.goto(APP);
+    await stock(recordPage);
+    await recordContext.close();
+    await recorder.finish();
+
+    const replayContext = await browser.newContext();
+    const player = new HarNetwork('replay', harPath);
+    await player.attachContext(replayContext);
+    const page = await replayContext.newPage();
+    await page.route(`${APP}/api/stock*`, (route) =>
+      route.fulfill({ json: { stock: 99 } })
+    );
+    await page.goto(APP);
+
+    expect(await stock(page)).toBe(99);
+    expect(
+      await page.evaluate(() =>
+        fetch('/api/cart').then(
+          () => 'answered',
+          () => 'aborted'
+        )
+      )
+    ).toBe('aborted');
+    expect(player.getUnmatched()).toEqual([`GET ${APP}/api/cart`]);
+    await expect(player.finish()).rejects.toThrow('Requests not found');
+    await replayContext.close();
+  });
+});
@@ -0,0 +1,176 @@
+import { test, expect } from '../../src/base/base-test';
+
+test.describe('Network Assertions', () => {
+  test('adding to cart posts the product once', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.goto('/products');
+    await page.locator('[data-testid="add-to-cart"]').first().click();
+
+    await requestLog.expectRequest(
+      { method: 'POST', url: '/api/cart' },
+      { times: 1 }
+    );
+    requestLog.expectNoDuplicates();
+    requestLog.expectNoServerErrors();
+  });
+
+  test('home page makes no analytics calls without consent', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    requestLog.expectNoRequest(/analytics|collect|gtag/);
+  });
+});
+
+// The app is served from a routed origin, so these need no app server
+test.describe('Request Log', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('http://app.test/**', async (route) => {
+      const { pathname } = new URL(route.request().url());
+      if (pathname === '/') {
+        await route.fulfill({ contentType: 'text/html', body: '<h1>App</h1>' });
+      } else if (pathname.startsWith('/api/broken')) {
+        await route.fulfill({ status: 502, json: { error: 'Bad gateway' } });
+      } else if (pathname.startsWith('/api/offline')) {
+        await route.abort('connectionrefused');
+      } else {
+        await route.fulfill({ json: { ok: true } });
+      }
+    });
+    await page.goto('http://app.test/');
+  });
+
+  test('log captures request bodies and statuses', async ({
+    page,
+    requestLog,
+    testHelpers,
+  }) => {
+    await testHelpers.mockApiScenario('**/api/cart', [
+      { status: 201, json: { ok: true } },
+      { status: 500 },
+    ]);
+
+    await page.evaluate(async () => {
+      for (let i = 0; i < 2; i++) {
+        await fetch('/api/cart', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ productId: 7 }),
+        });
+      }
+    });
+
+    const [first, second] = await requestLog.expectRequest(
+      { method: 'POST', url: '/api/cart', body: { productId: 7 } },
+      { times: 2 }
+    );
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(500);
+    expect(requestLog.findDuplicates()).toHaveLength(1);
+    expect(() => requestLog.expectNoServerErrors()).toThrow();
+  });
+
+  test('body matchers compare nested JSON and keep raw text', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.evaluate(async () => {
+      await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customer: { id: 3, tier: 'gold' },
+          items: [{ sku: 'A1' }],
+        }),
+      });
+      await fetch('/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'q=lamp',
+      });
+    });
+
+    await requestLog.expectRequest({
+      url: '/api/orders',
+      body: { customer: { tier: 'gold' }, items: { 0: { sku: 'A1' } } },
+    });
+    expect(
+      requestLog.getRequests({ body: { customer: { tier: 'silver' } } })
+    ).toEqual([]);
+    expect(requestLog.getRequests('/api/search')[0].body).toBe('q=lamp');
+    expect(requestLog.getRequests({ method: 'get', url: /\/api\// })).toEqual(
+      []
+    );
+  });
+
+  test('duplicates need the same method, URL and body in the window', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.evaluate(async () => {
+      const post = (url: string, body: unknown) =>
+        fetch(url, { method: 'POST', body: JSON.stringify(body) });
+      await post('/api/cart', { productId: 1 });
+      await post('/api/cart', { productId: 1 });
+      await post('/api/cart', { productId: 1 });
+      await post('/api/cart', { productId: 2 });
+      await fetch('/api/poll');
+      await fetch('/api/poll');
+    });
+
+    expect(requestLog.findDuplicates()).toEqual([
+      { method: 'POST', url: 'http://app.test/api/cart', count: 3 },
+      { method: 'GET', url: 'http://app.test/api/poll', count: 2 },
+    ]);
+    expect(requestLog.findDuplicates({ ignore: ['/api/poll'] })).toHaveLength(
+      1
+    );
+    // Only requests within windowMs of each other count
+    expect(requestLog.findDuplicates({ windowMs: -1 })).toEqual([]);
+    expect(
+      requestLog.findDuplicates({ resourceTypes: ['document'] })
+    ).toEqual([]);
+    expect(() => requestLog.expectNoDuplicates()).toThrow(
+      'Expected no duplicate requests'
+    );
+  });
+
+  test('5xx checks report failing responses only', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.evaluate(async () => {
+      await fetch('/api/items');
+      await fetch('/api/broken');
+      await fetch('/api/offline').catch(() => undefined);
+    });
+    await requestLog.expectRequest('/api/offline');
+
+    requestLog.expectNoServerErrors('/api/items');
+    expect(() => requestLog.expectNoServerErrors()).toThrow(
+      /502 GET http:\/\/app\.test\/api\/broken/
+    );
+    await expect
+      .poll(() => requestLog.getRequests('/api/offline')[0].failure)
+      .toBeTruthy();
+    expect(requestLog.getRequests('/api/offline')[0].status).toBeUndefined();
+  });
+
+  test('missing requests fail with the recent API calls', async ({
+    page,
+    requestLog,
+  }) => {
+    await page.evaluate(() => fetch('/api/items'));
+
+    await expect(
+      requestLog.expectRequest({ method: 'DELETE' }, { timeout: 500 })
+    ).rejects.toThrow(/GET http:\/\/app\.test\/api\/items -> 200/);
+    requestLog.clear();
+    requestLog.expectNoRequest('/api/items');
+  });
+});
@@ -0,0 +1,66 @@
+import { test, expect } from '../../src/base/base-test';
+
+test.describe('Realtime Updates', () => {
+  test('notification is pushed over the page WebSocket', async ({
+    page,
+    realtimeTesting,
+  }) => {
+    realtimeTesting.attachPage(page);
+    const notifications = realtimeTesting.tapWebSocket('/notifications');
+
+    await page.goto('/');
+    await notifications.expectSequence([
+      { direction: 'sent', json: { type: 'subscribe' } },
+      { direction: 'received', json: { type: 'notification' } },
+    ]);
+
+    await expect(page.locator('.notification')).toBeVisible();
+  });
+
+  test('order status events arrive in order', async ({
+    page,
+    realtimeTesting,
+  }) => {
+    realtimeTesting.registerSchema(
+      {
+        type: 'object',
+        required: ['orderId', 'status'],
+        properties: {
+          orderId: { type: 'string' },
+          status: {
+            enum: ['placed', 'paid', 'shipped', 'delivered'],
+          },
+        },
+      },
+      'orderStatus'
+    );
+    realtimeTesting.attachPage(page);
+    const orderStatus = await realtimeTesting.tapEventSource('/orders/');
+
+    await page.goto('/orders/demo-order');
+
+    await orderStatus.expectSequence(
+      [
+        { event: 'status', json: { status: 'placed' }, schema: 'orderStatus' },
+        { event: 'status', json: { status: 'paid' }, schema: 'orderStatus' },
+      ],
+      { timeout: 15000 }
+    );
+    await expect(page.locator('[data-testid="order-status"]')).toHaveText(
+      /paid/i
+    );
+  });
+
+  test('notification socket echoes subscriptions', async ({
+    realtimeTesting,
+  }) => {
+    const socket = await realtimeTesting.connectWebSocket('/notifications');
+
+    socket.send({ type: 'subscribe', topic: 'orders' });
+
+    await socket.waitForMessage({
+      json: { type: 'subscribed', topic: 'orders' },
+    });
+    await socket.expectNoMessage({ json: { type: 'error' } });
+  });
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '../../src/base/base-test';
+
+// The page is served from a routed origin, so it needs no app server
+test.describe('Scenario Mocks', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('http://app.test/', (route) =>
+      route.fulfill({ contentType: 'text/html', body: '<h1>App</h1>' })
+    );
+    await page.goto('http://app.test/');
+  });
+
+  test('retries a flaky endpoint until it succeeds', async ({
+    page,
+    testHelpers,
+  }) => {
+    const products = await testHelpers.mockApiScenario('**/api/products', [
+      { status: 503, times: 2 },
+      { json: [{ id: 1, name: 'Laptop' }] },
+    ]);
+
+    const statuses = await page.evaluate(async () => {
+      const results: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        results.push((await fetch('/api/products')).status);
+      }
+      return results;
+    });
+
+    expect(statuses).toEqual([503, 503, 200]);
+    products.expectCalled(3);
+  });
+
+  test('builds responses from the request body', async ({
+    page,
+    testHelpers,
+  }) => {
+    const cart = await testHelpers.mockApiScenario('**/api/cart', [
+      (call) => ({ status: 201, json: { items: [call.body], total: 1 } }),
+    ]);
+
+    const created = await page.evaluate(async () => {
+      const response = await fetch('/api/cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: 7, quantity: 2 }),
+      });
+      return response.json();
+    });
+
+    expect(created.items[0]).toEqual({ productId: 7, quantity: 2 });
+    cart.expectCalledWith({ productId: 7 });
+  });
+
+  test('surfaces aborted and malformed responses', async ({
+    page,
+    testHelpers,
+  }) => {
+    await testHelpers.mockApiScenario('**/api/profile', [
+      { abort: 'connectionreset' },
+      { json: { name: 'Jane' }, malformed: true, delay: 200 },
+    ]);
+
+    const errors = await page.evaluate(async () => {
+      const results: string[] = [];
+      for (let i = 0; i < 2; i++) {
+        try {
+          await (await fetch('/api/profile')).json();
+          results.push('ok');
+        } catch (error) {
+          results.push((error as Error).name);
+        }
+      }
+      return results;
+    });
+
+    expect(errors).toEqual(['TypeError', 'SyntaxError']);
+  });
+
+  test('times out a request after the step delay', async ({
+    page,
+    testHelpers,
+  }) => {
+    await testHelpers.mockApiScenario('**/api/orders', [{ timeout: 300 }]);
+
+    const outcome = await page.evaluate(async () => {
+      const started = Date.now();
+      try {
+        await fetch('/api/orders');
+        return { error: 'none', elapsed: Date.now() - started };
+      } catch (error) {
+        return { error: (error as Error).name, elapsed: Date.now() - started };
+      }
+    });
+
+    expect(outcome.error).toBe('TypeError');
+    expect(outcome.elapsed).toBeGreaterThanOrEqual(250);
+  });
+
+  test('loops steps and keeps explicit null bodies', async ({
+    page,
+    testHelpers,
+  }) => {
+    const flags = await testHelpers.mockApiScenario(
+      '**/api/flags',
+      [{ json: { beta: true } }, { json: { beta: false } }],
+      { loop: true }
+    );
+    await testHelpers.mockApiResponse('**/api/session', null);
+
+    const bodies = await page.evaluate(async () => {
+      const results: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        results.push(await (await fetch('/api/flags')).text());
+      }
+      results.push(await (await fetch('/api/session')).text());
+      return results;
+    });
+
+    expect(bodies).toEqual([
+      '{"beta":true}',
+      '{"beta":false}',
+      '{"beta":true}',
+      'null',
+    ]);
+    expect((await flags.waitForCalls(3)).map((call) => call.index)).toEqual([
+      1, 2, 3,
+    ]);
+  });
+});
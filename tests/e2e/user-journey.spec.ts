@@ -1,4 +1,5 @@
 import { test, expect } from '../../src/base/base-test';
+import { TestHelpers } from '../../src/utils/test-helpers';
 
 test.describe('Complete User Journey Tests', () => {
   test('user registration and login flow', async ({ page, testHelpers }) => {
@@ -38,12 +39,10 @@ test.describe('Complete User Journey Tests', () => {
     });
   });
 
-  test('shopping cart flow', async ({ page, testHelpers }) => {
-    // Login first
-    await page.goto('/login');
-    await testHelpers.typeText(page.locator('#email'), 'testuser@example.com');
-    await testHelpers.typeText(page.locator('#password'), 'TestPassword123!');
-    await testHelpers.safeClick(page.locator('button[type="submit"]'));
+  test('shopping cart flow', async ({ asRole }) => {
+    // Reuse the session saved during global setup
+    const { page } = await asRole('user');
+    const testHelpers = new TestHelpers(page);
 
     // Navigate to products
     await page.goto('/products');
@@ -137,12 +136,10 @@ test.describe('Complete User Journey Tests', () => {
     }
   });
 
-  test('user profile management', async ({ page, testHelpers }) => {
-    // Login
-    await page.goto('/login');
-    await testHelpers.typeText(page.locator('#email'), 'testuser@example.com');
-    await testHelpers.typeText(page.locator('#password'), 'TestPassword123!');
-    await testHelpers.safeClick(page.locator('button[type="submit"]'));
+  test('user profile management', async ({ asRole }) => {
+    const { page } = await asRole('user');
+    const testHelpers = new TestHelpers(page);
+    await page.goto('/');
 
     // Navigate to profile
     await testHelpers.safeClick(page.locator('[data-testid="user-menu"]'));
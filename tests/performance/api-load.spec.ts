@@ -0,0 +1,50 @@
+import { test, expect } from '../../src/base/base-test';
+
+// Each test generates 20s of load, so only run them on request
+test.describe('API Load Tests', () => {
+  test.skip(
+    process.env.LOAD_TESTS !== 'true',
+    'Set LOAD_TESTS=true to generate load'
+  );
+
+  test.beforeEach(() => {
+    // The load goes through the API client, so the browser makes no difference
+    test.skip(
+      test.info().project.name !== 'chromium',
+      'Load tests only run in the chromium project'
+    );
+  });
+
+  test('Products listing holds up under concurrent users', async ({
+    apiTesting,
+  }) => {
+    const result = await apiTesting.loadTest('/products', {
+      concurrency: 10,
+      rampUpMs: 5000,
+      durationMs: 15000,
+      thresholds: ['p95 < 500ms', 'errors < 1%'],
+      exportPath: 'test-results/load-tests/products-concurrency.json',
+    });
+
+    expect(result.phases.steady.requests).toBeGreaterThan(0);
+  });
+
+  test('Login endpoint sustains a target request rate', async ({
+    apiTesting,
+  }) => {
+    const result = await apiTesting.loadTest('/auth/login', {
+      method: 'POST',
+      data: {
+        username: 'testuser@example.com',
+        password: 'testpassword123',
+      },
+      rps: 20,
+      rampUpMs: 5000,
+      durationMs: 15000,
+      thresholds: ['p99 < 1s', 'errors < 1%', 'throughput > 15'],
+      exportPath: 'test-results/load-tests/login-rps.json',
+    });
+
+    expect(result.dropped).toBe(0);
+  });
+});
@@ -71,6 +71,15 @@ test.describe('Homepage Visual Tests', () => {
     }
   });
 
+  test('primary button state matrix', async ({ page, visualTesting }) => {
+    const button = page.locator('button').first();
+    test.skip((await button.count()) === 0, 'No button on the homepage');
+
+    await visualTesting.compareStates('button >> nth=0', 'primary-button', {
+      states: ['default', 'hover', 'focus', 'active', 'disabled'],
+    });
+  });
+
   test('loading states visual test', async ({ page, visualTesting }) => {
     // Simulate slow network to capture loading states
     await page.route('**/*', (route) => {
@@ -0,0 +1,87 @@
+import { test, expect } from '../../src/base/base-test';
+import { compareImages } from '../../src/utils/image-diff';
+import {
+  RawImage,
+  createImage,
+  decodePng,
+  encodePng,
+} from '../../src/utils/png';
+
+const WHITE: [number, number, number, number] = [255, 255, 255, 255];
+
+function fill(
+  image: RawImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rgb: number[]
+): void {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      image.data.set([...rgb, 255], (row * image.width + col) * 4);
+    }
+  }
+}
+
+test.describe('Image Diff', () => {
+  test('identical images have no diff and SSIM 1', () => {
+    const image = createImage(40, 30, WHITE);
+    fill(image, 5, 5, 10, 10, [0, 0, 0]);
+
+    const result = compareImages(image, decodePng(encodePng(image)));
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.ssim).toBe(1);
+  });
+
+  test('counts changed pixels and marks them in the diff image', () => {
+    const baseline = createImage(40, 30, WHITE);
+    const actual = createImage(40, 30, WHITE);
+    fill(actual, 10, 10, 5, 4, [200, 0, 0]);
+
+    const result = compareImages(baseline, actual);
+
+    expect(result.diffPixels).toBe(20);
+    expect(result.ssim).toBeLessThan(1);
+    const i = (10 * 40 + 10) * 4;
+    expect([...result.diff.data.subarray(i, i + 4)]).toEqual([255, 0, 0, 255]);
+  });
+
+  test('tolerates anti-aliased edges unless asked not to', () => {
+    const baseline = createImage(40, 30, WHITE);
+    fill(baseline, 10, 5, 10, 20, [0, 0, 0]);
+    const actual = createImage(40, 30, WHITE);
+    fill(actual, 10, 5, 10, 20, [0, 0, 0]);
+    // A softened right edge, as a different font renderer would draw it
+    fill(actual, 20, 8, 1, 14, [128, 128, 128]);
+
+    expect(compareImages(baseline, actual).diffPixels).toBe(0);
+    expect(
+      compareImages(baseline, actual, { includeAntialiasing: true }).diffPixels
+    ).toBe(14);
+  });
+
+  test('skips ignore regions', () => {
+    const baseline = createImage(40, 30, WHITE);
+    const actual = createImage(40, 30, WHITE);
+    fill(actual, 2, 2, 8, 3, [0, 0, 255]);
+
+    const result = compareImages(baseline, actual, {
+      ignoreRegions: [{ x: 0, y: 0, width: 12, height: 6 }],
+    });
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.ssim).toBe(1);
+  });
+
+  test('reports a size mismatch', () => {
+    const result = compareImages(
+      createImage(40, 30, WHITE),
+      createImage(40, 35, [0, 0, 0, 255])
+    );
+
+    expect(result.sizeMismatch).toBe(true);
+    expect(result.totalPixels).toBe(40 * 35);
+  });
+});
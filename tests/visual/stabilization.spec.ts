@@ -0,0 +1,152 @@
+import { Page } from '@playwright/test';
+import { test, expect } from '../../src/base/base-test';
+import {
+  registerStabilizationProfile,
+  resolveStabilization,
+} from '../../src/utils/stabilization';
+import { VisualTesting } from '../../src/utils/visual-testing';
+
+test.describe('Stabilization Profiles', () => {
+  test('resolves named profiles and overrides', () => {
+    expect(resolveStabilization('none').freezeTime).toBe(false);
+    expect(resolveStabilization('strict').textMasks.length).toBeGreaterThan(0);
+
+    const profile = resolveStabilization({
+      extends: 'strict',
+      hide: ['.ad-banner'],
+    });
+    expect(profile.hide).toEqual(['.ad-banner']);
+    expect(profile.textMasks).toEqual(resolveStabilization('strict').textMasks);
+  });
+
+  test('registered profiles can be extended', () => {
+    registerStabilizationProfile('dashboard', {
+      hide: ['.live-ticker'],
+      settleMs: 500,
+    });
+
+    const profile = resolveStabilization({ extends: 'dashboard' });
+    expect(profile.hide).toEqual(['.live-ticker']);
+    expect(profile.randomSeed).toBe(resolveStabilization().randomSeed);
+    expect(() => resolveStabilization('missing')).toThrow(/Unknown/);
+  });
+});
+
+// Runs on pages built with page.setContent, so it needs no app server.
+// compareScreenshot is replaced on the instance to leave baselines alone.
+test.describe('Page Stabilization', () => {
+  const captureScreenshots = (visualTesting: VisualTesting): Buffer[] => {
+    const screenshots: Buffer[] = [];
+    visualTesting.compareScreenshot = async (name, screenshot) => {
+      screenshots.push(screenshot);
+      return {
+        name,
+        status: 'passed',
+        baselinePath: '',
+        actualPath: '',
+        diffPath: '',
+      };
+    };
+    return screenshots;
+  };
+
+  // Draws from requestAnimationFrame the way a canvas animation loop does
+  const ANIMATED_PAGE = `
+    <video></video>
+    <script>
+      window.drawn = 0;
+      const draw = () => { window.drawn++; requestAnimationFrame(draw); };
+      requestAnimationFrame(draw);
+    </script>
+  `;
+  const drawnFrames = (page: Page) =>
+    page.evaluate(() => (window as unknown as { drawn: number }).drawn);
+
+  test('prepare() freezes Date and seeds Math.random', async ({ page }) => {
+    const profile = resolveStabilization('default');
+    const sample = () =>
+      page.evaluate(() => ({
+        date: new Date().toISOString(),
+        random: [Math.random(), Math.random()],
+      }));
+
+    await new VisualTesting(page, profile).prepare();
+    await page.setContent('<p>first</p>');
+    const first = await sample();
+    expect(first.date).toBe(profile.freezeTime);
+
+    await new VisualTesting(page, profile).prepare();
+    await page.setContent('<p>second</p>');
+    expect(await sample()).toEqual(first);
+  });
+
+  test('stabilize() masks text and hides elements', async ({ page }) => {
+    const visualTesting = new VisualTesting(
+      page,
+      resolveStabilization({ extends: 'strict', hide: ['.ad-banner'] })
+    );
+    await page.setContent(`
+      <p id="date">Published 2025-06-30</p>
+      <p id="time">Last sync at 09:41</p>
+      <p id="relative">Edited 3 hours ago</p>
+      <div class="ad-banner">Ad</div>
+    `);
+
+    await visualTesting.stabilize();
+
+    await expect(page.locator('#date')).toHaveText('Published 2024-01-15');
+    await expect(page.locator('#time')).toHaveText('Last sync at 12:00');
+    await expect(page.locator('#relative')).toHaveText('Edited a while ago');
+    await expect(page.locator('.ad-banner')).toBeHidden();
+  });
+
+  test('compare methods hide the text caret', async ({ page }) => {
+    const visualTesting = new VisualTesting(page, resolveStabilization());
+    const screenshots = captureScreenshots(visualTesting);
+    await page.setContent('<input value="text" style="outline: none">');
+
+    await visualTesting.compareElement('input', 'blurred');
+    await page.focus('input');
+    await visualTesting.compareElement('input', 'focused');
+
+    expect(screenshots).toHaveLength(2);
+    expect(screenshots[1].equals(screenshots[0])).toBe(true);
+  });
+
+  test('stabilize() pauses media and holds animation frames', async ({
+    page,
+  }) => {
+    const visualTesting = new VisualTesting(page, resolveStabilization());
+    await page.setContent(ANIMATED_PAGE);
+    await expect.poll(() => drawnFrames(page)).toBeGreaterThan(0);
+
+    await visualTesting.stabilize();
+    // A frame requested before the pause may still be drawn
+    const paused = (await drawnFrames(page)) + 1;
+    await page.waitForTimeout(200);
+
+    expect(await drawnFrames(page)).toBeLessThanOrEqual(paused);
+    expect(
+      await page.locator('video').evaluate((video) => {
+        return (video as HTMLVideoElement).paused;
+      })
+    ).toBe(true);
+
+    await visualTesting.resumeMedia();
+    await expect.poll(() => drawnFrames(page)).toBeGreaterThan(paused);
+  });
+
+  test('compare methods resume animation frames', async ({ page }) => {
+    const visualTesting = new VisualTesting(page, resolveStabilization());
+    captureScreenshots(visualTesting);
+    await page.setContent(ANIMATED_PAGE);
+
+    await visualTesting.compareFullPage('animated');
+    const drawn = await drawnFrames(page);
+
+    await expect.poll(() => drawnFrames(page)).toBeGreaterThan(drawn + 1);
+    expect(await page.evaluate(() => '__visualHeldFrames' in window)).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '../../src/base/base-test';
+import { VisualBaselines } from '../../src/utils/visual-baselines';
+import {
+  ComparisonRecord,
+  VisualRunSummary,
+  readComparisons,
+  resetComparisons,
+  writeRunSummary,
+} from '../../src/utils/visual-testing';
+
+// A comparison log with one passed and one failed comparison, as a run of
+// VisualTesting would leave behind
+function fakeRun(
+  dir: string,
+  summary: Partial<VisualRunSummary> = {}
+): ComparisonRecord[] {
+  const record = (name: string, status: 'passed' | 'failed') => ({
+    name,
+    status,
+    project: 'chromium',
+    testFile: 'tests/visual/homepage.spec.ts',
+    testTitle: name,
+    baselinePath: path.join(dir, 'baseline', 'chromium', `${name}.png`),
+    actualPath: path.join(dir, 'actual', 'chromium', `${name}.png`),
+    diffPath: path.join(dir, 'diff', 'chromium', `${name}.png`),
+  });
+  const records = [record('header', 'passed'), record('footer', 'failed')];
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+  write(records[0].baselinePath, 'header');
+  write(records[1].baselinePath, 'old footer');
+  write(records[1].actualPath, 'new footer');
+  write(records[1].diffPath, 'diff');
+  write(path.join(dir, 'baseline', 'chromium', 'removed.png'), 'orphan');
+  write(
+    path.join(dir, 'comparisons.jsonl'),
+    records.map((r) => JSON.stringify(r)).join('\n')
+  );
+  writeRunSummary(
+    { status: 'passed', filters: [], failed: [], skipped: [], ...summary },
+    dir
+  );
+  return records;
+}
+
+test.describe('Visual Baselines', () => {
+  test('lists and approves failed comparisons', () => {
+    const dir = test.info().outputPath('screenshots');
+    const [, footer] = fakeRun(dir);
+    const baselines = new VisualBaselines(dir);
+
+    expect(baselines.getPending().map(VisualBaselines.key)).toEqual([
+      'chromium/footer',
+    ]);
+    expect(baselines.find(['chromium/foot*'])).toHaveLength(1);
+
+    baselines.approve(footer);
+
+    expect(fs.readFileSync(footer.baselinePath, 'utf-8')).toBe('new footer');
+    expect(fs.existsSync(footer.diffPath)).toBe(false);
+    expect(baselines.getPending()).toEqual([]);
+  });
+
+  test('rejecting keeps the baseline', () => {
+    const dir = test.info().outputPath('screenshots');
+    const [, footer] = fakeRun(dir);
+    const baselines = new VisualBaselines(dir);
+
+    baselines.reject(footer);
+
+    expect(fs.readFileSync(footer.baselinePath, 'utf-8')).toBe('old footer');
+    expect(fs.existsSync(footer.actualPath)).toBe(false);
+  });
+
+  test('prunes baselines no comparison used', () => {
+    const dir = test.info().outputPath('screenshots');
+    fakeRun(dir);
+    const baselines = new VisualBaselines(dir);
+
+    expect(baselines.prune().map((file) => path.basename(file))).toEqual([
+      'removed.png',
+    ]);
+    expect(baselines.getOrphans()).toEqual([]);
+  });
+
+  test('refuses to prune after filtered, failed or skipped runs', () => {
+    const dir = test.info().outputPath('screenshots');
+    fakeRun(dir, {
+      filters: ['--grep'],
+      failed: [{ project: 'chromium', title: 'Home › hero' }],
+      skipped: [{ project: 'firefox', title: 'Home › footer' }],
+    });
+    const baselines = new VisualBaselines(dir);
+
+    // Firefox did not compare anything, so its skip does not matter
+    expect(baselines.getPruneBlockers()).toEqual([
+      'the last run was filtered (--grep)',
+      'failed: [chromium] Home › hero',
+    ]);
+    expect(() => baselines.prune()).toThrow('Refusing to prune baselines');
+    expect(baselines.getOrphans()).toHaveLength(1);
+
+    expect(baselines.prune(true)).toHaveLength(1);
+  });
+
+  test('refuses to prune when the last run has unknown filters', () => {
+    const dir = test.info().outputPath('screenshots');
+    fakeRun(dir, { filters: 'unknown' });
+
+    expect(new VisualBaselines(dir).getPruneBlockers()).toEqual([
+      'the last run was not started with `playwright test`, so its filters ' +
+        'are unknown',
+    ]);
+  });
+
+  test('resetting keeps pending comparisons the run does not repeat', () => {
+    const dir = test.info().outputPath('screenshots');
+    const [header, footer] = fakeRun(dir);
+
+    resetComparisons((record) => record.name === 'header', dir);
+
+    expect(readComparisons(dir)).toEqual([footer]);
+    expect(fs.existsSync(footer.actualPath)).toBe(true);
+    expect(new VisualBaselines(dir).getPending()).toEqual([footer]);
+
+    resetComparisons((record) => record.name === 'footer', dir);
+
+    expect(readComparisons(dir)).toEqual([]);
+    expect(fs.existsSync(footer.actualPath)).toBe(false);
+    expect(fs.existsSync(footer.diffPath)).toBe(false);
+    expect(fs.existsSync(header.baselinePath)).toBe(true);
+  });
+
+  test('refuses to prune when the last run left no summary', () => {
+    const dir = test.info().outputPath('screenshots');
+    fakeRun(dir);
+    fs.rmSync(path.join(dir, 'last-run.json'));
+
+    expect(() => new VisualBaselines(dir).prune()).toThrow(
+      'the last run did not finish'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '../../src/base/base-test';
+import { VisualReport } from '../../src/utils/visual-report';
+import { ComparisonRecord, VISUAL_DIR } from '../../src/utils/visual-testing';
+
+function record(
+  name: string,
+  viewport: { width: number; height: number },
+  status: ComparisonRecord['status'] = 'passed',
+  cell?: ComparisonRecord['cell']
+): ComparisonRecord {
+  // Paths that don't exist; the report just leaves their images out
+  const file = path.join('report-spec', `${name}.png`);
+  return {
+    name,
+    status,
+    project: 'chromium',
+    testFile: 'tests/visual/homepage.spec.ts',
+    testTitle: 'Homepage › responsive design',
+    viewport,
+    baselinePath: path.join(VISUAL_DIR, 'baseline', file),
+    actualPath: path.join(VISUAL_DIR, 'actual', file),
+    diffPath: path.join(VISUAL_DIR, 'diff', file),
+    cell,
+  };
+}
+
+test.describe('Visual Review Report', () => {
+  test('groups by viewport and links compareWithViewport siblings', () => {
+    const mobile = { width: 375, height: 667 };
+    const desktop = { width: 1920, height: 1080 };
+    const report = new VisualReport([
+      record('home-375x667-full-page', mobile, 'failed'),
+      record('home-1920x1080-full-page', desktop),
+      // A retry logs the comparison again; only the last one is shown
+      record('home-375x667-full-page', mobile),
+    ]);
+
+    const file = report.write(test.info().outputPath('visual-review.html'));
+    const html = fs.readFileSync(file, 'utf-8');
+
+    expect(report.size).toBe(2);
+    expect(html).toContain('<h3>375x667</h3>');
+    expect(html).toContain('<h3>1920x1080</h3>');
+    expect(html).toContain('href="#chromium/home-1920x1080-full-page"');
+    expect(html).toContain('0 failed');
+  });
+
+  test('shows a state matrix as one grid', () => {
+    const viewport = { width: 1280, height: 720 };
+    const cell = (
+      theme: 'light' | 'dark',
+      state: 'default' | 'hover',
+      status: ComparisonRecord['status'] = 'passed'
+    ) =>
+      record(`button-${theme}-${state}`, viewport, status, {
+        matrix: 'button',
+        theme,
+        state,
+      });
+    const report = new VisualReport([
+      cell('light', 'default'),
+      cell('light', 'hover'),
+      cell('dark', 'default'),
+      cell('dark', 'hover', 'failed'),
+    ]);
+
+    const file = report.write(test.info().outputPath('visual-review.html'));
+    const html = fs.readFileSync(file, 'utf-8');
+
+    expect(html.match(/<table class="matrix">/g)).toHaveLength(1);
+    expect(html).toContain('<tr><th></th><th>default</th><th>hover</th></tr>');
+    expect(html).toContain('<th>dark</th>');
+    // Only the failed cell gets a card to review it in
+    expect(html).toContain('href="#chromium/button-dark-hover"');
+    expect(html).toContain('id="chromium/button-dark-hover"');
+    expect(html).not.toContain('id="chromium/button-light-hover"');
+  });
+});